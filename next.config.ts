@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loaded on the server for PDF text extraction; bundling breaks its worker
+  serverExternalPackages: ['pdfjs-dist'],
 };
 
 export default nextConfig;
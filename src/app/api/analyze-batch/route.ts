@@ -3,16 +3,23 @@ import { StateService } from '@/lib/stateService';
 import { LlmService } from '@/lib/llmService';
 import { PdfService } from '@/lib/pdfService';
 import { ImageService } from '@/lib/imageService';
+import { OcrService } from '@/lib/ocrService';
+import { RedactionService } from '@/lib/redactionService';
 import { CacheService } from '@/lib/cacheService';
 import { Logger } from '@/lib/logger';
-import { DocumentType, FileInfo } from '@/types';
-import { processFile } from '@/lib/server-tools';
+import { DocumentData, DocumentTypeName, FileInfo } from '@/types';
+import { processFile, ProcessFileResult } from '@/lib/server-tools';
+import { isRetryableLater } from '@/lib/llmErrors';
+import { getDocumentTypeDeclaration } from '@/lib/settings';
+import { PrivacyError } from '@/lib/privacy';
 
 const logger = new Logger(true);
 const stateService = new StateService(logger);
 const llmService = new LlmService(logger);
 const pdfService = new PdfService(logger);
 const imageService = new ImageService(logger);
+const ocrService = new OcrService(logger);
+const redactionService = new RedactionService(logger, ocrService);
 const cacheService = new CacheService(logger);
 
 // Initialize services
@@ -30,16 +37,22 @@ export async function POST(request: NextRequest) {
     await initializeServices();
     // Reload latest state from disk each request so IDs match front-end after rescans
     await stateService.loadState();
-    const { ids, forceReanalyze = false } = await request.json();
+    // documentType is set when the user corrects a wrong classification
+    const { ids, forceReanalyze = false, documentType } = await request.json() as { ids: string[]; forceReanalyze?: boolean; documentType?: DocumentTypeName };
     
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
       return NextResponse.json({ error: 'IDs array is required' }, { status: 400 });
     }
 
+    if (documentType && !getDocumentTypeDeclaration(documentType)) {
+      return NextResponse.json({ error: `Unknown document type: ${documentType}` }, { status: 400 });
+    }
+
     const results: Array<{ 
       id: string; 
       success: boolean; 
       data?: FileInfo; 
+      children?: FileInfo[];
       error?: string;
       usedCache?: boolean;
     }> = [];
@@ -60,19 +73,30 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // A child record is analyzed as part of its source file
+        if (fileInfo.parentId) {
+          results.push({ id, success: false, error: 'Document is part of another file; analyze the source file instead' });
+          continue;
+        }
+
         logger.debug(`Analyze file: ${fileInfo.currentPath}`);
 
         // Check cache first (unless force reanalyze is requested)
-        let result = null;
+        let result: ProcessFileResult | null = null;
         let usedCache = false;
         
-        if (!forceReanalyze) {
+        // A corrected document type always re-runs the extraction
+        if (!forceReanalyze && !documentType) {
           const cachedResult = await cacheService.getCachedResult(fileInfo.currentPath);
           if (cachedResult) {
             logger.info(`Using cached result for file: ${fileInfo.currentPath}`);
             result = {
-              data: cachedResult.analysisResult,
+              data: cachedResult.analysisResult as DocumentData,
               documentType: cachedResult.documentType,
+              classification: cachedResult.classification,
+              children: cachedResult.children,
+              analysis: cachedResult.analysis,
+              pageTexts: cachedResult.pageTexts,
             };
             usedCache = true;
           }
@@ -81,38 +105,44 @@ export async function POST(request: NextRequest) {
         // If no cached result or force reanalyze, process the file
         if (!result) {
           logger.info(`Processing file with LLM: ${fileInfo.currentPath}`);
-          const processResult = await processFile(fileInfo, pdfService, llmService, imageService);
+          const processResult = await processFile(fileInfo, pdfService, llmService, imageService, ocrService, redactionService, documentType);
           
           if (processResult) {
-            // Convert string documentType to enum
-            let documentType: DocumentType;
-            switch (processResult.documentType) {
-              case 'invoice':
-                documentType = DocumentType.INVOICE;
-                break;
-              case 'generic':
-                documentType = DocumentType.GENERIC;
-                break;
-              case 'movie_cover':
-                documentType = DocumentType.MOVIE_COVER;
-                break;
-              default:
-                documentType = DocumentType.INVOICE;
-            }
-            
             result = {
               data: processResult.data,
-              documentType: documentType,
+              documentType: processResult.documentType,
+              classification: processResult.classification,
+              children: processResult.children,
+              analysis: processResult.analysis,
+              attempts: processResult.attempts,
+              pageTexts: processResult.pageTexts,
             };
             
             // Cache the new result
-            await cacheService.cacheResult(fileInfo.currentPath, result.data, result.documentType);
+            await cacheService.cacheResult(fileInfo.currentPath, result.data, result.documentType, {
+              classification: result.classification,
+              children: result.children,
+              analysis: result.analysis,
+              attempts: result.attempts,
+              pageTexts: result.pageTexts,
+            });
           }
         }
         
         if (result) {
           fileInfo.data = result.data;
+          fileInfo.extractedData = result.data;
           fileInfo.documentType = result.documentType;
+          fileInfo.classification = result.classification;
+          fileInfo.analysis = result.analysis;
+          fileInfo.pageTexts = result.pageTexts;
+          // One child record per document when the file holds more than one
+          let children: FileInfo[] = [];
+          if (result.children) {
+            children = stateService.setChildRecords(fileInfo, result.children);
+          } else {
+            stateService.removeChildRecords(fileInfo);
+          }
           fileInfo.status = 'analyzed';
           fileInfo.error = undefined; // Clear any previous errors
           stateService.markFileModified(fileInfo.id);
@@ -124,6 +154,7 @@ export async function POST(request: NextRequest) {
             id, 
             success: true, 
             data: fileInfo,
+            children,
             usedCache
           });
         } else {
@@ -138,7 +169,15 @@ export async function POST(request: NextRequest) {
           });
         }
       } catch (error) {
-        if (fileInfo) {
+        if (fileInfo && (isRetryableLater(error) || error instanceof PrivacyError)) {
+          // Rate limited, out of quota or private-only: the file is fine, keep its status so it can be analyzed again
+          fileInfo.error = `Analysis postponed: ${error instanceof Error ? error.message : String(error)}`;
+          if (error instanceof PrivacyError && error.classification) {
+            fileInfo.classification = error.classification;
+          }
+          stateService.markFileModified(fileInfo.id);
+          logger.warn(`Analysis of ${fileInfo.currentPath} can be retried later`);
+        } else if (fileInfo) {
           fileInfo.status = 'bad';
           fileInfo.error = `Error analyzing file: ${error instanceof Error ? error.message : String(error)}`;
           stateService.markFileModified(fileInfo.id);
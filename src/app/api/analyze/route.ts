@@ -3,10 +3,15 @@ import { StateService } from '@/lib/stateService';
 import { LlmService } from '@/lib/llmService';
 import { PdfService } from '@/lib/pdfService';
 import { ImageService } from '@/lib/imageService';
+import { OcrService } from '@/lib/ocrService';
+import { RedactionService } from '@/lib/redactionService';
 import { CacheService } from '@/lib/cacheService';
 import { Logger } from '@/lib/logger';
-import { DocumentType } from '@/types';
-import { processFile } from '@/lib/server-tools';
+import { DocumentData, DocumentTypeName } from '@/types';
+import { processFile, ProcessFileResult } from '@/lib/server-tools';
+import { isRetryableLater } from '@/lib/llmErrors';
+import { getDocumentTypeDeclaration } from '@/lib/settings';
+import { PrivacyError } from '@/lib/privacy';
 import { FileInfo } from '@/types';
 
 const logger = new Logger(true);
@@ -14,6 +19,8 @@ const stateService = new StateService(logger);
 const llmService = new LlmService(logger);
 const pdfService = new PdfService(logger);
 const imageService = new ImageService(logger);
+const ocrService = new OcrService(logger);
+const redactionService = new RedactionService(logger, ocrService);
 const cacheService = new CacheService(logger);
 
 // Initialize services
@@ -33,13 +40,18 @@ export async function POST(request: NextRequest) {
     await initializeServices();
     // Always reload state from disk to ensure we have latest files (handles clear state + rescan)
     await stateService.loadState();
-    const { id, forceReanalyze = false } = await request.json();
+    // documentType is set when the user corrects a wrong classification
+    const { id, forceReanalyze = false, documentType } = await request.json() as { id: string; forceReanalyze?: boolean; documentType?: DocumentTypeName };
     
     if (!id) {
       logger.error('ID is required');
       return NextResponse.json({ error: 'ID is required' }, { status: 400 });
     }
 
+    if (documentType && !getDocumentTypeDeclaration(documentType)) {
+      return NextResponse.json({ error: `Unknown document type: ${documentType}` }, { status: 400 });
+    }
+
     fileInfo = stateService.getFileById(id);
     if (!fileInfo) {
       logger.error(`File not found: ${id}`);
@@ -53,19 +65,29 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'File has been marked as bad after failed analysis' }, { status: 400 });
     }
 
+    // A child record is analyzed as part of its source file
+    if (fileInfo.parentId) {
+      return NextResponse.json({ error: 'Document is part of another file; analyze the source file instead' }, { status: 400 });
+    }
+
     logger.debug(`Analyze file: ${fileInfo?.currentPath}`);
 
     // Check cache first (unless force reanalyze is requested)
-    let result = null;
+    let result: ProcessFileResult | null = null;
     let usedCache = false;
     
-    if (!forceReanalyze) {
+    // A corrected document type always re-runs the extraction
+    if (!forceReanalyze && !documentType) {
       const cachedResult = await cacheService.getCachedResult(fileInfo.currentPath);
       if (cachedResult) {
         logger.info(`Using cached result for file: ${fileInfo.currentPath}`);
         result = {
-          data: cachedResult.analysisResult,
+          data: cachedResult.analysisResult as DocumentData,
           documentType: cachedResult.documentType,
+          classification: cachedResult.classification,
+          children: cachedResult.children,
+          analysis: cachedResult.analysis,
+          pageTexts: cachedResult.pageTexts,
         };
         usedCache = true;
       }
@@ -74,38 +96,44 @@ export async function POST(request: NextRequest) {
     // If no cached result or force reanalyze, process the file
     if (!result) {
       logger.info(`Processing file with LLM: ${fileInfo.currentPath}`);
-      const processResult = await processFile(fileInfo, pdfService, llmService, imageService);
+      const processResult = await processFile(fileInfo, pdfService, llmService, imageService, ocrService, redactionService, documentType);
       
       if (processResult) {
-        // Convert string documentType to enum
-        let documentType: DocumentType;
-        switch (processResult.documentType) {
-          case 'invoice':
-            documentType = DocumentType.INVOICE;
-            break;
-          case 'generic':
-            documentType = DocumentType.GENERIC;
-            break;
-          case 'movie_cover':
-            documentType = DocumentType.MOVIE_COVER;
-            break;
-          default:
-            documentType = DocumentType.INVOICE;
-        }
-        
         result = {
           data: processResult.data,
-          documentType: documentType,
+          documentType: processResult.documentType,
+          classification: processResult.classification,
+          children: processResult.children,
+          analysis: processResult.analysis,
+          attempts: processResult.attempts,
+          pageTexts: processResult.pageTexts,
         };
         
         // Cache the new result
-        await cacheService.cacheResult(fileInfo.currentPath, result.data, result.documentType);
+        await cacheService.cacheResult(fileInfo.currentPath, result.data, result.documentType, {
+          classification: result.classification,
+          children: result.children,
+          analysis: result.analysis,
+          attempts: result.attempts,
+          pageTexts: result.pageTexts,
+        });
       }
     }
     
     if (result) {
       fileInfo.data = result.data;
+      fileInfo.extractedData = result.data;
       fileInfo.documentType = result.documentType;
+      fileInfo.classification = result.classification;
+      fileInfo.analysis = result.analysis;
+      fileInfo.pageTexts = result.pageTexts;
+      // One child record per document when the file holds more than one
+      let children: FileInfo[] = [];
+      if (result.children) {
+        children = stateService.setChildRecords(fileInfo, result.children);
+      } else {
+        stateService.removeChildRecords(fileInfo);
+      }
       fileInfo.status = 'analyzed';
       fileInfo.error = undefined; // Clear any previous errors
       stateService.markFileModified(fileInfo.id);
@@ -116,6 +144,7 @@ export async function POST(request: NextRequest) {
       
       return NextResponse.json({ 
         data: fileInfo,
+        children,
         usedCache,
         cacheHit: usedCache
       });
@@ -131,7 +160,16 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
   } catch (error) {
-    if (fileInfo) {
+    if (fileInfo && (isRetryableLater(error) || error instanceof PrivacyError)) {
+      // Rate limited, out of quota or private-only: the file is fine, keep its status so it can be analyzed again
+      fileInfo.error = `Analysis postponed: ${error instanceof Error ? error.message : String(error)}`;
+      if (error instanceof PrivacyError && error.classification) {
+        fileInfo.classification = error.classification;
+      }
+      stateService.markFileModified(fileInfo.id);
+      await stateService.saveState();
+      logger.warn(`Analysis of ${fileInfo.currentPath} can be retried later`);
+    } else if (fileInfo) {
       fileInfo.status = 'bad';
       fileInfo.error = `Error analyzing file: ${error instanceof Error ? error.message : String(error)}`;
       stateService.markFileModified(fileInfo.id);
@@ -142,7 +180,7 @@ export async function POST(request: NextRequest) {
     logger.error(`Error analyzing file: ${error}`);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : String(error) },
-      { status: 500 }
+      { status: error instanceof PrivacyError ? 403 : isRetryableLater(error) ? 503 : 500 }
     );
   }
 } 
\ No newline at end of file
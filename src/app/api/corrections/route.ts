@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CorrectionService } from '@/lib/correctionService';
+import { Logger } from '@/lib/logger';
+import { DocumentTypeName } from '@/types';
+
+const logger = new Logger(true);
+const correctionService = new CorrectionService(logger);
+
+export async function GET(request: NextRequest) {
+  try {
+    // Reload from disk, corrections are recorded by the update routes
+    await correctionService.loadCorrections();
+
+    // Optional filters
+    const { searchParams } = new URL(request.url);
+    const supplier = searchParams.get('supplier') || undefined;
+    const documentType = (searchParams.get('documentType') || undefined) as DocumentTypeName | undefined;
+
+    const corrections = correctionService.getCorrections({ supplier, documentType });
+    return NextResponse.json({ total: corrections.length, corrections });
+  } catch (error) {
+    logger.error(`Error getting corrections: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { ids, supplier, documentType } = await request.json() as { ids?: string[]; supplier?: string; documentType?: DocumentTypeName };
+
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return NextResponse.json({ error: 'ids must be an array' }, { status: 400 });
+    }
+    if (!ids && !supplier && !documentType) {
+      return NextResponse.json({ error: 'ids, supplier or documentType is required' }, { status: 400 });
+    }
+
+    const removed = await correctionService.removeCorrections(ids, { supplier, documentType });
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    logger.error(`Error removing corrections: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
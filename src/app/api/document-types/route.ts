@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { loadDocumentTypes } from '@/lib/settings';
+import { Logger } from '@/lib/logger';
+
+const logger = new Logger(true);
+
+export async function GET() {
+  try {
+    return NextResponse.json(loadDocumentTypes());
+  } catch (error) {
+    logger.error(`Error loading document types: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
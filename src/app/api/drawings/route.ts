@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { StateService } from '@/lib/stateService';
+import { getDrawingTimelines } from '@/lib/drawingTimeline';
+import { loadSettings } from '@/lib/settings';
+import { Logger } from '@/lib/logger';
+
+const logger = new Logger(true);
+const stateService = new StateService(logger);
+
+export async function GET() {
+  try {
+    // Reload state from disk, the analyze routes update it
+    await stateService.loadState();
+    return NextResponse.json(getDrawingTimelines(stateService.getKnownFiles(), loadSettings().family));
+  } catch (error) {
+    logger.error(`Error getting drawing timelines: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StateService } from '@/lib/stateService';
+import { getInsuranceOverview } from '@/lib/insuranceOverview';
+import { Logger } from '@/lib/logger';
+
+const logger = new Logger(true);
+const stateService = new StateService(logger);
+
+const DEFAULT_RENEWAL_DAYS = 60;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Reload state from disk, the analyze routes update it
+    await stateService.loadState();
+
+    // Optional window for upcoming renewals, in days
+    const { searchParams } = new URL(request.url);
+    const days = Number(searchParams.get('days') || DEFAULT_RENEWAL_DAYS);
+    if (!Number.isInteger(days) || days < 0) {
+      return NextResponse.json({ error: 'days must be a whole number of days' }, { status: 400 });
+    }
+
+    return NextResponse.json(getInsuranceOverview(stateService.getKnownFiles(), days));
+  } catch (error) {
+    logger.error(`Error getting insurance overview: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import { StateService } from '@/lib/stateService';
+import { getMediaCatalog, getNfoPath, toCatalogCsv, toNfo } from '@/lib/mediaCatalog';
+import { Logger } from '@/lib/logger';
+
+const logger = new Logger(true);
+const stateService = new StateService(logger);
+
+export async function GET(request: NextRequest) {
+  try {
+    // Reload state from disk, the analyze routes update it
+    await stateService.loadState();
+    const catalog = getMediaCatalog(stateService.getKnownFiles());
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(toCatalogCsv(catalog), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="media-catalog.csv"',
+        },
+      });
+    }
+
+    return NextResponse.json(catalog);
+  } catch (error) {
+    logger.error(`Error getting media catalog: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Write a .nfo sidecar file next to every cover in the catalog. Covers of an
+ * unsplit multi-cover scan share the scan's path, so they are skipped until
+ * the scan is split.
+ */
+export async function POST() {
+  try {
+    await stateService.loadState();
+    const results: Array<{ id: string; path: string; success: boolean; error?: string }> = [];
+    let skipped = 0;
+
+    for (const entry of getMediaCatalog(stateService.getKnownFiles())) {
+      if (entry.parentId) {
+        skipped++;
+        continue;
+      }
+      const nfoPath = getNfoPath(entry.currentPath);
+      try {
+        await fs.writeFile(nfoPath, toNfo(entry), 'utf-8');
+        results.push({ id: entry.fileId, path: nfoPath, success: true });
+      } catch (error) {
+        logger.error(`Error writing ${nfoPath}: ${error}`);
+        results.push({ id: entry.fileId, path: nfoPath, success: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return NextResponse.json({
+      total: results.length,
+      written: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+      skipped,
+      results,
+    });
+  } catch (error) {
+    logger.error(`Error writing .nfo files: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
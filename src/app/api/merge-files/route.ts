@@ -3,6 +3,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { StateService } from '@/lib/stateService';
 import { Logger } from '@/lib/logger';
+import { FileInfo } from '@/types';
 import { PDFDocument } from 'pdf-lib';
 
 const logger = new Logger(true);
@@ -30,7 +31,7 @@ export async function POST(req: NextRequest) {
     await initializeState();
     
     // Get all files by IDs
-    const files = fileIds.map(id => stateService.getFileById(id)).filter(Boolean);
+    const files = fileIds.map(id => stateService.getFileById(id)).filter((f): f is FileInfo => !!f);
     
     if (files.length !== fileIds.length) {
       return NextResponse.json({ error: 'One or more files not found' }, { status: 404 });
@@ -44,6 +45,13 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
+    // Records that are part of a multi-document file cannot be merged
+    if (files.some(f => f.parentId || f.childIds?.length)) {
+      return NextResponse.json({ 
+        error: 'Files holding several documents, and the documents in them, cannot be merged. Rename them first.' 
+      }, { status: 400 });
+    }
+
     // Check if files exist on disk
     try {
       for (const file of files) {
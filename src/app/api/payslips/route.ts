@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StateService } from '@/lib/stateService';
+import { summarizePayslips } from '@/lib/payslipSummary';
+import { Logger } from '@/lib/logger';
+
+const logger = new Logger(true);
+const stateService = new StateService(logger);
+
+export async function GET(request: NextRequest) {
+  try {
+    // Reload state from disk, the analyze routes update it
+    await stateService.loadState();
+
+    // Optional year (YYYY)
+    const { searchParams } = new URL(request.url);
+    const year = searchParams.get('year') || undefined;
+
+    return NextResponse.json(summarizePayslips(stateService.getKnownFiles(), year));
+  } catch (error) {
+    logger.error(`Error summarizing payslips: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
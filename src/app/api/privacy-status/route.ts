@@ -1,18 +1,16 @@
 import { NextResponse } from 'next/server';
+import { getProviderKeyModes } from '@/lib/privacy';
 
 export async function GET() {
   try {
-    // Check if OpenAI API key is configured for shared data
-    // Compare OPENAI_API_KEY with OPENAI_API_KEY_SHARED_DATA
-    const apiKey = process.env.OPENAI_API_KEY || '';
-    const sharedDataKey = process.env.OPENAI_API_KEY_SHARED_DATA || '';
-    
-    // If the current API key matches the shared data key, it's shared data mode
-    const isSharedData = apiKey === sharedDataKey && apiKey !== '';
-    
+    // Shared data mode when any provider used for analysis has the key in OPENAI_API_KEY_SHARED_DATA
+    const providers = getProviderKeyModes();
+    const isSharedData = providers.some(provider => provider.keyMode === 'shared');
+
     return NextResponse.json({
       isSharedData: isSharedData,
-      privacyMode: isSharedData ? 'shared' : 'private'
+      privacyMode: isSharedData ? 'shared' : 'private',
+      providers
     });
   } catch (error) {
     return NextResponse.json(
@@ -21,4 +19,3 @@ export async function GET() {
     );
   }
 }
-
@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server';
 import { StateService } from '@/lib/stateService';
+import { CorrectionService } from '@/lib/correctionService';
 import { Logger } from '@/lib/logger';
 import { FileInfo } from '@/types';
 
 const logger = new Logger(true);
 const stateService = new StateService(logger);
+const correctionService = new CorrectionService(logger);
 
 export type RecordsResponse = FileInfo[];
 
@@ -68,8 +70,18 @@ export async function PUT(req: Request) {
     if (!file) {
       return NextResponse.json({ error: 'File not found' }, { status: 404 });
     }
+    const previousData = file.data;
     Object.assign(file, updateFields);
     await stateService.saveState();
+
+    // Remember fields fixed by hand so the model can learn from them
+    if (updateFields.data && previousData && file.data) {
+      try {
+        await correctionService.recordCorrection(file, file.extractedData || previousData, file.data);
+      } catch (error) {
+        logger.error(`Error recording correction: ${error}`);
+      }
+    }
     return NextResponse.json(file);
   } catch (error) {
     logger.error(`Error updating record: ${error}`);
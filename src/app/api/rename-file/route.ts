@@ -3,10 +3,15 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { generateFileName } from '@/lib/generic-tools';
 import { StateService } from '@/lib/stateService';
+import { PdfService } from '@/lib/pdfService';
 import { Logger } from '@/lib/logger';
+import { getDocumentTypeDeclaration } from '@/lib/settings';
+import { getPairedCards, withPairedCardData } from '@/lib/cardPairing';
+import { splitChildRecord, splitSourceFile } from '@/lib/server-tools';
 
 const logger = new Logger(true);
 const stateService = new StateService(logger);
+const pdfService = new PdfService(logger);
 
 export async function POST(req: NextRequest) {
   try {
@@ -22,8 +27,18 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Record not found' }, { status: 404 });
     }
 
+    // A file holding several documents is split into one file per document
+    if (record.childIds?.length) {
+      const result = await splitSourceFile(record, stateService, pdfService);
+      await stateService.saveState();
+      logger.info(`Split ${record.currentPath} into ${result.files.length} files`);
+      return NextResponse.json({ success: true, ...result });
+    }
+
     // Generate new filename
-    const newPath = generateFileName(record);
+    // The picture side of a card is named after its message side
+    const pairedRecord = getPairedCards(stateService.getKnownFiles()).get(record.id);
+    const newPath = generateFileName(withPairedCardData(record, pairedRecord), getDocumentTypeDeclaration(record.documentType));
     if (!newPath || newPath === record.currentPath) {
       return NextResponse.json({ error: 'No new filename generated' }, { status: 400 });
     }
@@ -44,6 +59,13 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: `Source file not accessible: ${(error as Error).message}` }, { status: 404 });
     }
     
+    // A child record gets its pages written to a file of its own
+    if (record.parentId) {
+      const result = await splitChildRecord(record, absNewPath, stateService, pdfService);
+      await stateService.saveState();
+      return NextResponse.json({ success: true, newPath, file: record, parents: result.parents, removedIds: result.removedIds });
+    }
+
     // Rename the file
     await fs.rename(absOldPath, absNewPath);
     
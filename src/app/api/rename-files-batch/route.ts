@@ -4,52 +4,15 @@ import path from 'path';
 import { generateFileName } from '@/lib/generic-tools';
 import { FileInfo } from '@/types';
 import { StateService } from '@/lib/stateService';
+import { PdfService } from '@/lib/pdfService';
 import { Logger } from '@/lib/logger';
+import { getDocumentTypeDeclaration } from '@/lib/settings';
+import { getPairedCards, withPairedCardData } from '@/lib/cardPairing';
+import { generateUniquePath, splitChildRecord, splitSourceFile } from '@/lib/server-tools';
 
 const logger = new Logger(true);
 const stateService = new StateService(logger);
-
-async function generateUniquePath(basePath: string, usedPaths?: Set<string>): Promise<string> {
-  // Check if the file already exists or is already used in this batch
-  const isPathAvailable = async (path: string): Promise<boolean> => {
-    // Check if used in batch
-    if (usedPaths && usedPaths.has(path)) {
-      return false;
-    }
-    // Check if exists on disk
-    try {
-      await fs.access(path);
-      return false; // File exists
-    } catch {
-      return true; // File doesn't exist
-    }
-  };
-  
-  // Check if base path is available
-  if (await isPathAvailable(basePath)) {
-    return basePath;
-  }
-  
-  // Extract directory, filename without extension, and extension
-  const dirPath = basePath.substring(0, basePath.lastIndexOf('/'));
-  const filename = basePath.split('/').pop() || '';
-  const ext = filename.split('.').pop() || '';
-  const nameWithoutExt = filename.substring(0, filename.lastIndexOf('.'));
-  
-  // Find a unique filename by adding an index
-  let index = 1;
-  let uniquePath: string;
-  
-  do {
-    uniquePath = `${dirPath}/${nameWithoutExt}_${index}.${ext}`;
-    if (await isPathAvailable(uniquePath)) {
-      break; // Found available path
-    }
-    index++;
-  } while (index < 1000); // Prevent infinite loop
-  
-  return uniquePath;
-}
+const pdfService = new PdfService(logger);
 
 export async function POST(req: NextRequest) {
   try {
@@ -61,11 +24,18 @@ export async function POST(req: NextRequest) {
     // Load state using StateService
     await stateService.loadState();
     
-    const results: Array<{ id: string; success: boolean; newPath?: string; error?: string; file?: FileInfo }> = [];
+    const results: Array<{ id: string; success: boolean; newPath?: string; error?: string; file?: FileInfo; files?: FileInfo[]; parents?: FileInfo[] }> = [];
     const updatedRecords: FileInfo[] = [];
+    // Source records removed after all their documents were split off
+    const removedIds: string[] = [];
+    // Child records already split off as part of their source file in this batch
+    const splitIds = new Set<string>();
     
     // Track all new paths to avoid conflicts within the same batch
     const usedPaths = new Set<string>();
+
+    // The picture side of a card is named after its message side
+    const pairedCards = getPairedCards(stateService.getKnownFiles());
     
     for (const id of ids) {
       const record = stateService.getFileById(id);
@@ -74,9 +44,25 @@ export async function POST(req: NextRequest) {
         continue;
       }
 
+      if (splitIds.has(id)) {
+        results.push({ id, success: true, newPath: record.currentPath, file: record });
+        continue;
+      }
+
       try {
+        // A file holding several documents is split into one file per document.
+        // Splits are saved right away, the renames below are applied to a fresh copy of the state.
+        if (record.childIds?.length) {
+          const result = await splitSourceFile(record, stateService, pdfService, usedPaths);
+          await stateService.saveState();
+          result.files.forEach(file => splitIds.add(file.id));
+          removedIds.push(...result.removedIds);
+          results.push({ id, success: true, files: result.files });
+          continue;
+        }
+
         // Generate new filename
-        const basePath = generateFileName(record);
+        const basePath = generateFileName(withPairedCardData(record, pairedCards.get(record.id)), getDocumentTypeDeclaration(record.documentType));
         if (!basePath || basePath === record.currentPath) {
           results.push({ id, success: false, error: 'No new filename generated' });
           continue;
@@ -95,6 +81,16 @@ export async function POST(req: NextRequest) {
           continue;
         }
         
+        // A child record gets its pages written to a file of its own
+        if (record.parentId) {
+          const result = await splitChildRecord(record, newPath, stateService, pdfService);
+          await stateService.saveState();
+          usedPaths.add(newPath);
+          removedIds.push(...result.removedIds);
+          results.push({ id, success: true, newPath, file: record, parents: result.parents });
+          continue;
+        }
+
         // Rename the file
         await fs.rename(absOldPath, newPath);
         
@@ -154,7 +150,8 @@ export async function POST(req: NextRequest) {
       total: ids.length,
       successful: successCount,
       failed: failureCount,
-      results 
+      results,
+      removedIds
     });
   } catch (error) {
     console.error('Error batch renaming files:', error);
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { StateService } from '@/lib/stateService';
+import { CorrectionService } from '@/lib/correctionService';
 import { Logger } from '@/lib/logger';
 
 const logger = new Logger(true);
 const stateService = new StateService(logger);
+const correctionService = new CorrectionService(logger);
 
 // Initialize state service
 let isInitialized = false;
@@ -20,10 +22,20 @@ export async function POST(request: NextRequest) {
     const { id, data } = await request.json();
     const fileInfo = stateService.getFileById(id);
     if (fileInfo) {
+      const previousData = fileInfo.data;
       fileInfo.data = { ...fileInfo.data, ...data };
       fileInfo.status = 'analyzed';
       stateService.markFileModified(id);
       await stateService.saveState();
+
+      // Remember fields fixed by hand so the model can learn from them
+      if (previousData && fileInfo.data) {
+        try {
+          await correctionService.recordCorrection(fileInfo, fileInfo.extractedData || previousData, fileInfo.data);
+        } catch (error) {
+          logger.error(`Error recording correction: ${error}`);
+        }
+      }
       logger.success(`Updated file: ${fileInfo.currentPath}`);
       return NextResponse.json({ success: true });
     } else {
@@ -38,4 +50,4 @@ export async function POST(request: NextRequest) {
     );
   }
 }
- 
\ No newline at end of file
+ 
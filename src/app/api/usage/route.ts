@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UsageLedgerService } from '@/lib/usageLedgerService';
+import { Logger } from '@/lib/logger';
+
+const logger = new Logger(true);
+const usageLedgerService = new UsageLedgerService(logger);
+
+export async function GET(request: NextRequest) {
+  try {
+    // Reload ledger from disk, the analyze routes append to it
+    await usageLedgerService.loadLedger();
+
+    // Optional date range (YYYY-MM-DD, inclusive)
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+
+    return NextResponse.json(usageLedgerService.getSummary(from, to));
+  } catch (error) {
+    logger.error(`Error getting usage summary: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StateService } from '@/lib/stateService';
+import { getConsumptionSeries } from '@/lib/utilityConsumption';
+import { Logger } from '@/lib/logger';
+
+const logger = new Logger(true);
+const stateService = new StateService(logger);
+
+export async function GET(request: NextRequest) {
+  try {
+    // Reload state from disk, the analyze routes update it
+    await stateService.loadState();
+
+    // Optional utility (electricity, gas, water or heat)
+    const { searchParams } = new URL(request.url);
+    const utility = searchParams.get('utility') || undefined;
+
+    return NextResponse.json(getConsumptionSeries(stateService.getKnownFiles(), utility));
+  } catch (error) {
+    logger.error(`Error getting utility consumption: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { StateService } from '@/lib/stateService';
+import { getWarrantyRegister } from '@/lib/warrantyRegister';
+import { Logger } from '@/lib/logger';
+
+const logger = new Logger(true);
+const stateService = new StateService(logger);
+
+export async function GET() {
+  try {
+    // Reload state from disk, the analyze routes update it
+    await stateService.loadState();
+    return NextResponse.json(getWarrantyRegister(stateService.getKnownFiles()));
+  } catch (error) {
+    logger.error(`Error getting warranty register: ${error}`);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
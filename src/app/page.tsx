@@ -6,7 +6,8 @@ import RecordList from '@/components/RecordList';
 import FileViewer from '@/components/FileViewer';
 import OperationStatus from '@/components/OperationStatus';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { fetchFiles, scanFiles, mergeFiles, rotateImages } from '@/store/slices/filesSlice';
+import { fetchDocumentTypes, fetchFiles, scanFiles, mergeFiles, rotateImages } from '@/store/slices/filesSlice';
+import { getPairedCards } from '@/lib/cardPairing';
 
 export default function Home() {
   const dispatch = useAppDispatch();
@@ -29,6 +30,9 @@ export default function Home() {
   const [isMergeMode, setIsMergeMode] = useState(false);
   const [selectedFileIds, setSelectedFileIds] = useState<Set<string>>(new Set());
 
+  // The picture and message side of a card are shown as one record
+  const pairedCards = useMemo(() => getPairedCards(files), [files]);
+
   // Determine if we should show operation status instead of file list
   const showOperationStatus = useMemo(() => {
     return isAnalyzingAll || isRenamingAll || isAnalyzingSingle || 
@@ -60,9 +64,10 @@ export default function Home() {
     setLastOperationName(operationName);
   };
 
-  // Initial load - fetch all files on page load
+  // Initial load - fetch all files and the document types on page load
   useEffect(() => {
     dispatch(fetchFiles());
+    dispatch(fetchDocumentTypes());
   }, [dispatch]);
 
   const handleScan = async () => {
@@ -182,7 +187,8 @@ export default function Home() {
         const filename = record.currentPath.split('/').pop() || '';
         const originalFilename = record.originalPath.split('/').pop() || '';
         return filename.toLowerCase().includes(searchLower) || 
-               originalFilename.toLowerCase().includes(searchLower);
+               originalFilename.toLowerCase().includes(searchLower) ||
+               !!record.pageTexts?.some(pageText => pageText.text.toLowerCase().includes(searchLower));
       });
     }
     
@@ -258,6 +264,7 @@ export default function Home() {
                   <div style={{ display: showOperationStatus ? 'none' : 'block' }}>
                     <RecordList 
                       records={files}
+                      pairedCards={pairedCards}
                       searchText={searchText}
                       statusFilter={statusFilter}
                       onRecordSelect={(record) => dispatch({ type: 'files/setCurrentRecord', payload: record })}
@@ -272,6 +279,7 @@ export default function Home() {
                 <div className="col-md-6">
                   <FileViewer 
                     record={currentRecord}
+                    pairedRecord={currentRecord ? pairedCards.get(currentRecord.id) : undefined}
                   />
                 </div>
               </div>
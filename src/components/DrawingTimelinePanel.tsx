@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import type { ChildTimeline, DrawingEntry } from '@/lib/drawingTimeline';
+
+interface DrawingTimelinePanelProps {
+  onClose: () => void;
+}
+
+const formatDate = (date?: string): string =>
+  date ? `${date.substring(0, 4)}-${date.substring(4, 6)}-${date.substring(6, 8)}` : '';
+
+const getDrawingUrl = (entry: DrawingEntry): string =>
+  `/api/${entry.type === 'pdf' ? 'get-pdf' : 'get-image'}?path=${encodeURIComponent(entry.currentPath)}`;
+
+const DrawingTimelinePanel: React.FC<DrawingTimelinePanelProps> = ({ onClose }) => {
+  const [timelines, setTimelines] = useState<ChildTimeline[] | null>(null);
+
+  useEffect(() => {
+    const loadTimelines = async () => {
+      try {
+        const response = await fetch('/api/drawings');
+        if (response.ok) {
+          setTimelines(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading drawings:', error);
+      }
+    };
+    loadTimelines();
+  }, []);
+
+  return (
+    <div className="drawing-panel p-2 bg-light rounded mb-3">
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <strong>Drawings</strong>
+        <button className="btn btn-sm btn-outline-secondary" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {!timelines ? (
+        <small className="text-muted">Loading...</small>
+      ) : timelines.length === 0 ? (
+        <small className="text-muted">No drawings analyzed yet</small>
+      ) : (
+        timelines.map(timeline => (
+          <div key={timeline.child_name} className="mb-3">
+            <div>
+              <strong>{timeline.child_name}</strong>
+              {timeline.birthDate && <small className="text-muted ms-2">born {formatDate(timeline.birthDate)}</small>}
+            </div>
+            <div className="drawing-timeline">
+              {timeline.drawings.map(entry => (
+                <a
+                  key={entry.fileId}
+                  className="drawing-thumbnail"
+                  href={getDrawingUrl(entry)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={entry.description || entry.currentPath}
+                >
+                  {entry.type === 'image' ? (
+                    <Image src={getDrawingUrl(entry)} alt={entry.subject} width={140} height={105} unoptimized />
+                  ) : (
+                    <div className="drawing-placeholder">PDF</div>
+                  )}
+                  <small className="d-block">{formatDate(entry.drawing_date) || entry.school_year || 'undated'}</small>
+                  <small className="d-block text-muted">
+                    {entry.subject}{entry.age !== undefined && ` (${entry.age})`}
+                  </small>
+                </a>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default DrawingTimelinePanel;
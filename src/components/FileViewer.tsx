@@ -7,9 +7,10 @@ import Image from 'next/image';
 
 interface FileViewerProps {
   record: FileInfo | null;
+  pairedRecord?: FileInfo;  // The other side of a card, shown below the record
 }
 
-const FileViewer: React.FC<FileViewerProps> = ({ record }) => {
+const FileViewer: React.FC<FileViewerProps> = ({ record, pairedRecord }) => {
   const [previewContent, setPreviewContent] = useState<{
     type: 'image' | 'pdf' | 'none';
     data: string | null;
@@ -258,6 +259,39 @@ const FileViewer: React.FC<FileViewerProps> = ({ record }) => {
     );
   };
 
+  const renderPairedPreview = () => {
+    if (!pairedRecord || previewContent.isLoading || isFadingOut) {
+      return null;
+    }
+
+    const url = `/api/${pairedRecord.type === 'pdf' ? 'get-pdf' : 'get-image'}?path=${encodeURIComponent(pairedRecord.currentPath)}`;
+    return (
+      <div className="text-center p-3 border-top">
+        <small className="text-muted d-block mb-2">
+          Other side: {pairedRecord.currentPath.split('/').pop()}
+        </small>
+        {pairedRecord.type === 'pdf' ? (
+          <PdfViewer src={url} />
+        ) : (
+          <Image 
+            src={url} 
+            alt="Other side" 
+            width={800}
+            height={600}
+            style={{ 
+              maxWidth: '100%', 
+              maxHeight: '80vh',
+              height: 'auto',
+              border: '1px solid #dee2e6',
+              borderRadius: '4px'
+            }}
+            unoptimized
+          />
+        )}
+      </div>
+    );
+  };
+
   return (
     <div id="viewer-container" className="viewer-pane">
       <div className="viewer-header d-flex justify-content-between align-items-center p-3 border-bottom">
@@ -271,6 +305,7 @@ const FileViewer: React.FC<FileViewerProps> = ({ record }) => {
       <div className="viewer-content">
         <div id="viewer" style={{ minHeight: '400px' }}>
           {renderPreview()}
+          {renderPairedPreview()}
         </div>
       </div>
     </div>
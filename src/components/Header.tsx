@@ -2,6 +2,12 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import UsagePanel, { formatCost } from './UsagePanel';
+import WarrantyPanel from './WarrantyPanel';
+import MediaCatalogPanel from './MediaCatalogPanel';
+import DrawingTimelinePanel from './DrawingTimelinePanel';
+import type { UsageSummary } from '@/lib/usageLedgerService';
+import type { ProviderKeyMode } from '@/lib/privacy';
 import { cleanupFiles, clearState, cleanNotAnalyzed, resetBadFiles, analyzeAll, stopAnalysis, renameAll, removeRenamedFiles } from '@/store/slices/filesSlice';
 
 interface HeaderProps {
@@ -42,13 +48,20 @@ const Header: React.FC<HeaderProps> = ({
   const dispatch = useAppDispatch();
   const { loading, isAnalyzingAll, shouldStopAnalysis, analysisProgress, isAnalyzingSingle, analyzingSingleFile, isRenamingAll, renameProgress, files } = useAppSelector((state) => state.files);
   const [cacheStats, setCacheStats] = useState<{ total: number; lastUpdated: string } | null>(null);
-  const [privacyStatus, setPrivacyStatus] = useState<{ isSharedData: boolean; privacyMode: 'shared' | 'private' } | null>(null);
+  const [privacyStatus, setPrivacyStatus] = useState<{ isSharedData: boolean; privacyMode: 'shared' | 'private'; providers: ProviderKeyMode[] } | null>(null);
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showWarranties, setShowWarranties] = useState(false);
+  const [showCatalog, setShowCatalog] = useState(false);
+  const [showDrawings, setShowDrawings] = useState(false);
 
   useEffect(() => {
     // Load cache stats
     loadCacheStats();
     // Load privacy status
     loadPrivacyStatus();
+    // Load LLM spend
+    loadUsageSummary();
   }, []);
 
   // Reload cache stats when single file analysis completes
@@ -59,6 +72,7 @@ const Header: React.FC<HeaderProps> = ({
       // Small delay to ensure server has saved cache
       setTimeout(() => {
         loadCacheStats();
+        loadUsageSummary();
       }, 200);
     }
     prevIsAnalyzingSingle.current = isAnalyzingSingle;
@@ -76,6 +90,18 @@ const Header: React.FC<HeaderProps> = ({
     }
   };
 
+  const loadUsageSummary = async () => {
+    try {
+      const response = await fetch('/api/usage');
+      if (response.ok) {
+        const summary = await response.json();
+        setUsageSummary(summary);
+      }
+    } catch (error) {
+      console.error('Error loading usage summary:', error);
+    }
+  };
+
   const loadPrivacyStatus = async () => {
     try {
       const response = await fetch('/api/privacy-status');
@@ -209,6 +235,7 @@ const Header: React.FC<HeaderProps> = ({
         // Fallback: reload cache stats
         loadCacheStats();
       }
+      loadUsageSummary();
     } catch (error) {
       alert(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -240,13 +267,17 @@ const Header: React.FC<HeaderProps> = ({
     ? 'Bonnetje (Shared data)' 
     : 'Bonnetje (Private data)';
   
+  const sharedProviders = privacyStatus?.providers
+    .filter(provider => provider.keyMode === 'shared')
+    .map(provider => `${provider.provider} (${provider.usedFor})`);
+
   const headerClassName = privacyStatus?.isSharedData 
     ? 'header header-shared-data' 
     : 'header';
 
   return (
     <div className={headerClassName}>
-      <h1>{headerTitle}</h1>
+      <h1 title={sharedProviders?.length ? `Shared data key: ${sharedProviders.join(', ')}` : undefined}>{headerTitle}</h1>
       
       <div className="row mb-3">
         <div className="col-12">
@@ -304,6 +335,45 @@ const Header: React.FC<HeaderProps> = ({
                   </small>
                 </div>
               )}
+
+              {/* LLM Spend */}
+              {usageSummary && (
+                <button
+                  type="button"
+                  className="btn btn-sm btn-link text-muted p-0"
+                  onClick={() => setShowUsage(!showUsage)}
+                  title="Show LLM usage per day, model and folder"
+                >
+                  Spend: {formatCost(usageSummary.total.cost)}
+                </button>
+              )}
+
+              <button
+                type="button"
+                className="btn btn-sm btn-link text-muted p-0"
+                onClick={() => setShowWarranties(!showWarranties)}
+                title="Show purchases with their warranty expiry"
+              >
+                Warranties
+              </button>
+
+              <button
+                type="button"
+                className="btn btn-sm btn-link text-muted p-0"
+                onClick={() => setShowCatalog(!showCatalog)}
+                title="Show movie, music, game and book covers"
+              >
+                Catalog
+              </button>
+
+              <button
+                type="button"
+                className="btn btn-sm btn-link text-muted p-0"
+                onClick={() => setShowDrawings(!showDrawings)}
+                title="Show the children's drawings per child"
+              >
+                Drawings
+              </button>
             </div>
             
             {/* Action Buttons */}
@@ -465,6 +535,22 @@ const Header: React.FC<HeaderProps> = ({
         </div>
       </div>
       
+      {showUsage && usageSummary && (
+        <UsagePanel summary={usageSummary} onClose={() => setShowUsage(false)} />
+      )}
+
+      {showWarranties && (
+        <WarrantyPanel onClose={() => setShowWarranties(false)} />
+      )}
+
+      {showCatalog && (
+        <MediaCatalogPanel onClose={() => setShowCatalog(false)} />
+      )}
+
+      {showDrawings && (
+        <DrawingTimelinePanel onClose={() => setShowDrawings(false)} />
+      )}
+
       {/* Analysis Progress Row */}
       {(isAnalyzingAll || isAnalyzingSingle || isRenamingAll) && (
         <div className="row mt-2">
@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { CatalogEntry } from '@/lib/mediaCatalog';
+
+interface MediaCatalogPanelProps {
+  onClose: () => void;
+}
+
+const getCoverUrl = (entry: CatalogEntry): string =>
+  `/api/${entry.type === 'pdf' ? 'get-pdf' : 'get-image'}?path=${encodeURIComponent(entry.currentPath)}`;
+
+const MediaCatalogPanel: React.FC<MediaCatalogPanelProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CatalogEntry[] | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+
+  useEffect(() => {
+    const loadCatalog = async () => {
+      try {
+        const response = await fetch('/api/media-catalog');
+        if (response.ok) {
+          setEntries(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading media catalog:', error);
+      }
+    };
+    loadCatalog();
+  }, []);
+
+  const handleWriteNfo = async () => {
+    setIsWriting(true);
+    try {
+      const response = await fetch('/api/media-catalog', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Writing .nfo files failed');
+      }
+      alert(`Wrote ${result.written} .nfo files${result.failed ? `, ${result.failed} failed` : ''}` +
+        (result.skipped ? `, skipped ${result.skipped} covers of unsplit scans (split them first)` : ''));
+    } catch (error) {
+      console.error('Error writing .nfo files:', error);
+      alert('Error writing .nfo files: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  return (
+    <div className="media-catalog-panel p-2 bg-light rounded mb-3">
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <strong>Media Catalog</strong>
+        <div>
+          <a className="btn btn-sm btn-outline-secondary me-2" href="/api/media-catalog?format=csv" download>
+            Export CSV
+          </a>
+          <button
+            className="btn btn-sm btn-outline-secondary me-2"
+            onClick={handleWriteNfo}
+            disabled={isWriting || !entries?.length}
+            title="Write a Kodi style .nfo file next to every cover"
+          >
+            {isWriting ? 'Writing...' : 'Write .nfo files'}
+          </button>
+          <button className="btn btn-sm btn-outline-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+      {!entries ? (
+        <small className="text-muted">Loading...</small>
+      ) : entries.length === 0 ? (
+        <small className="text-muted">No covers analyzed yet</small>
+      ) : (
+        <table className="table table-sm media-catalog-table">
+          <thead>
+            <tr>
+              <th>Format</th>
+              <th>Title</th>
+              <th>Artist / Author</th>
+              <th>Disc</th>
+              <th>Year</th>
+              <th>Cover</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.fileId}>
+                <td>{entry.format}{entry.platform && ` (${entry.platform})`}</td>
+                <td>{entry.title}{entry.season ? ` - season ${entry.season}` : ''}</td>
+                <td>{entry.creator}</td>
+                <td>{entry.disc_number}</td>
+                <td>{entry.year}</td>
+                <td>
+                  <a href={getCoverUrl(entry)} target="_blank" rel="noopener noreferrer" title={entry.currentPath}>
+                    {entry.currentPath.split('/').pop()}
+                  </a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default MediaCatalogPanel;
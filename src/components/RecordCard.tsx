@@ -1,13 +1,17 @@
 'use client';
 
 import React, { useState } from 'react';
-import { FileInfo, DocumentData, DocumentType } from '@/types';
+import { FileInfo, DocumentData, DocumentType, FieldEvidence, InvoiceData } from '@/types';
 import { generateFileName } from '@/lib/generic-tools';
-import { useAppDispatch } from '@/store/hooks';
+import { findDocumentType, getDisplayFields, getListFields } from '@/lib/documentTypes';
+import { checkInvoiceTotals } from '@/lib/invoiceTotals';
+import { withPairedCardData } from '@/lib/cardPairing';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { analyzeFile, renameFile, updateFileData } from '@/store/slices/filesSlice';
 
 interface RecordCardProps {
   record: FileInfo;
+  pairedRecord?: FileInfo;  // The picture side shown with the message side of a card
   isSelected: boolean;
   onSelect: (record: FileInfo) => void;
   onUpdate: (record: FileInfo) => void;
@@ -16,8 +20,13 @@ interface RecordCardProps {
   onMergeSelectionChange: (fileId: string, isSelected: boolean) => void;
 }
 
+// Shown in the field's input, so numbers such as a season of 0 show as typed
+const getFieldValue = (record: FileInfo, field: string): string =>
+  String((record.data as unknown as Record<string, unknown> | undefined)?.[field] ?? '');
+
 const RecordCard: React.FC<RecordCardProps> = ({ 
   record, 
+  pairedRecord,
   isSelected, 
   onSelect, 
   onUpdate,
@@ -26,46 +35,71 @@ const RecordCard: React.FC<RecordCardProps> = ({
   onMergeSelectionChange
 }) => {
   const dispatch = useAppDispatch();
+  const documentTypes = useAppSelector((state) => state.files.documentTypes);
+  const declaration = findDocumentType(documentTypes, record.documentType);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
+  // List fields have no single input to compare, so their edits are tracked until saved
+  const [hasListChanges, setHasListChanges] = useState(false);
 
-  const getFieldsForDocumentType = (documentType: DocumentType): string[] => {
-    switch (documentType) {
-      case DocumentType.INVOICE:
-        return ['invoice_date', 'company_name', 'description', 'invoice_currency', 'invoice_amount'];
-      case DocumentType.REKENINGAFSCHRIFT:
-        return ['document_date', 'document_category', 'description', 'source', 'bank_account_number', 'account_holder_name', 'page_number', 'number_of_pages'];
-      case DocumentType.GENERIC:
-        return ['document_date', 'document_category', 'description', 'source'];
-      case DocumentType.MOVIE_COVER:
-        return ['movie_title', 'type', 'season', 'disc_number', 'media_format', 'description', 'duration', 'imdb_id'];
-      default:
-        return [];
-    }
-  };
+  // A scan holding several documents is split into a file per document instead of renamed
+  const isSourceOfChildren = !!record.childIds?.length;
+  const isChild = !!record.parentId;
+
+  // The other side of a card is renamed along with this record
+  const pairedFilename = pairedRecord?.currentPath.split('/').pop();
+  const pairedProposedFilename = pairedRecord
+    ? generateFileName(withPairedCardData(pairedRecord, record), findDocumentType(documentTypes, pairedRecord.documentType)).split('/').pop()
+    : undefined;
+  const shouldRenamePaired = !!pairedProposedFilename && pairedProposedFilename !== pairedFilename && !pairedProposedFilename.startsWith('.');
 
   const checkForChanges = (record: FileInfo): boolean => {
     if (!record.data) return false;
+    if (hasListChanges) return true;
     
-    const fields = getFieldsForDocumentType(record.documentType);
+    const fields = getDisplayFields(declaration);
     return fields.some(field => {
       const input = document.querySelector(`input[data-field="${field}"][data-record-id="${record.id}"]`) as HTMLInputElement;
-      const currentValue = (record.data as unknown as Record<string, string>)[field] || '';
-      return input && input.value !== currentValue;
+      return input && input.value !== getFieldValue(record, field);
     });
   };
 
-  const handleFieldChange = (field: string, value: string) => {
+  const handleFieldChange = (field: string, value: unknown) => {
+    // An edited field has been reviewed, so its model evidence no longer applies
+    const fieldEvidence = { ...record.data?.field_evidence };
+    delete fieldEvidence[field];
     const updatedRecord = {
       ...record,
       data: {
         ...record.data,
-        [field]: value
+        [field]: value,
+        field_evidence: fieldEvidence
       } as DocumentData
     };
     onUpdate(updatedRecord);
   };
 
+  const getListEntries = (field: string): Record<string, string>[] =>
+    ((record.data as unknown as Record<string, unknown>)[field] as Record<string, string>[] | undefined) || [];
+
+  const handleListEntryChange = (field: string, index: number, column: string, value: string) => {
+    const entries = getListEntries(field).map((entry, i) => i === index ? { ...entry, [column]: value } : entry);
+    setHasListChanges(true);
+    handleFieldChange(field, entries);
+  };
+
+  const handleAddListEntry = (e: React.MouseEvent, field: string, columns: string[]) => {
+    e.stopPropagation();
+    setHasListChanges(true);
+    handleFieldChange(field, [...getListEntries(field), Object.fromEntries(columns.map(column => [column, '']))]);
+  };
+
+  const handleRemoveListEntry = (e: React.MouseEvent, field: string, index: number) => {
+    e.stopPropagation();
+    setHasListChanges(true);
+    handleFieldChange(field, getListEntries(field).filter((_, i) => i !== index));
+  };
+
   const handleAnalyze = async (e: React.MouseEvent) => {
     e.stopPropagation();
     setIsAnalyzing(true);
@@ -73,6 +107,7 @@ const RecordCard: React.FC<RecordCardProps> = ({
     try {
       // Check cache first - only force reanalyze if explicitly requested
       await dispatch(analyzeFile({ id: record.id, forceReanalyze: false })).unwrap();
+      setHasListChanges(false);
     } catch (error) {
       console.error('Error analyzing file:', error);
       alert('Error analyzing file: ' + (error instanceof Error ? error.message : 'Unknown error'));
@@ -81,6 +116,24 @@ const RecordCard: React.FC<RecordCardProps> = ({
     }
   };
 
+  // Correct a wrong classification: re-run only the extraction for the chosen type
+  const handleDocumentTypeChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    e.stopPropagation();
+    const documentType = e.target.value;
+    if (documentType === record.documentType) return;
+
+    setIsAnalyzing(true);
+    try {
+      await dispatch(analyzeFile({ id: record.id, forceReanalyze: true, documentType })).unwrap();
+      setHasListChanges(false);
+    } catch (error) {
+      console.error('Error re-extracting file:', error);
+      alert('Error re-extracting file: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   const handleMergeCheckboxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.stopPropagation();
     onMergeSelectionChange(record.id, e.target.checked);
@@ -96,6 +149,7 @@ const RecordCard: React.FC<RecordCardProps> = ({
       // Update file data
       try {
         await dispatch(updateFileData({ id: record.id, data: record.data })).unwrap();
+        setHasListChanges(false);
       } catch (error) {
         console.error('Error updating file:', error);
         alert('Error updating file. Please try again.');
@@ -105,7 +159,12 @@ const RecordCard: React.FC<RecordCardProps> = ({
     } else {
       // Rename file
       try {
-        await dispatch(renameFile(record.id)).unwrap();
+        if (isSourceOfChildren || record.currentPath !== generateFileName(record, declaration)) {
+          await dispatch(renameFile(record.id)).unwrap();
+        }
+        if (pairedRecord && shouldRenamePaired) {
+          await dispatch(renameFile(pairedRecord.id)).unwrap();
+        }
       } catch (error) {
         console.error('Error renaming file:', error);
         alert('Error renaming file: ' + (error instanceof Error ? error.message : 'Unknown error'));
@@ -118,13 +177,15 @@ const RecordCard: React.FC<RecordCardProps> = ({
   const getActionButtonText = (): string => {
     const hasChanges = checkForChanges(record);
     const currentFilename = record.currentPath.split('/').pop();
-    const proposedFilename = generateFileName(record).split('/').pop();
+    const proposedFilename = generateFileName(record, declaration).split('/').pop();
     
     if (record.status === 'new') {
       return '';
     } else if (hasChanges) {
       return 'Update';
-    } else if (currentFilename !== proposedFilename) {
+    } else if (isSourceOfChildren) {
+      return 'Split';
+    } else if (currentFilename !== proposedFilename || shouldRenamePaired) {
       return 'Rename';
     } else {
       return '';
@@ -134,14 +195,16 @@ const RecordCard: React.FC<RecordCardProps> = ({
   const shouldShowActionButton = (): boolean => {
     const hasChanges = checkForChanges(record);
     const currentFilename = record.currentPath.split('/').pop();
-    const proposedFilename = generateFileName(record).split('/').pop();
+    const proposedFilename = generateFileName(record, declaration).split('/').pop();
     
     if (record.status === 'new' || record.status === 'bad') {
       return false;
-    } else if (hasChanges) {
+    } else if (hasChanges || isSourceOfChildren) {
       return true;
     } else if (currentFilename !== proposedFilename && proposedFilename && proposedFilename !== `.${currentFilename?.split('.').pop()}`) {
       return true;
+    } else if (shouldRenamePaired) {
+      return true;
     } else {
       return false;
     }
@@ -149,23 +212,34 @@ const RecordCard: React.FC<RecordCardProps> = ({
 
   const getDocumentTypeDisplay = (): string => {
     if (!record.data) return '';
-    
-    if ('movie_title' in record.data && record.data.movie_title) {
-      return 'Movie Cover';
-    } else if ('document_category' in record.data && record.data.document_category) {
-      return 'Generic';
-    } else {
-      return 'Invoice';
-    }
+    return declaration?.label || record.documentType;
+  };
+
+  const getFieldEvidenceTitle = (evidence?: FieldEvidence): string => {
+    if (!evidence) return '';
+    const parts = [`${evidence.confidence} confidence`];
+    if (evidence.page) parts.push(`page ${evidence.page}`);
+    if (evidence.source) parts.push(`"${evidence.source}"`);
+    return parts.join(' - ');
+  };
+
+  const getClassificationTitle = (): string => {
+    if (!record.classification) return '';
+    return record.classification.corrected
+      ? 'Document type set by hand'
+      : `Classified by ${record.classification.model || 'model'} with ${record.classification.confidence} confidence`;
   };
 
   const showFields = (record.status === 'analyzed') && ("data" in record === true);
+  const totalsProblems = showFields && record.data && record.documentType === DocumentType.INVOICE
+    ? checkInvoiceTotals(record.data as InvoiceData)
+    : [];
   // console.log(`showFields - show: ${showFields} / doctype: ${record.documentType}`, record);
 
   // Show the proposed filename below the current filename
   const currentFilename = record.currentPath.split('/').pop();
-  const proposedFilename = generateFileName(record).split('/').pop();
-  const isValidProposedFilename = proposedFilename && 
+  const proposedFilename = generateFileName(record, declaration).split('/').pop();
+  const isValidProposedFilename = !isSourceOfChildren && proposedFilename && 
     proposedFilename !== currentFilename && 
     proposedFilename !== `.${currentFilename?.split('.').pop()}` &&
     !proposedFilename.startsWith('.');
@@ -185,7 +259,7 @@ const RecordCard: React.FC<RecordCardProps> = ({
             type="checkbox"
             checked={isSelectedForMerge}
             onChange={handleMergeCheckboxChange}
-            disabled={record.type !== 'image'}
+            disabled={record.type !== 'image' || isChild || isSourceOfChildren}
             onClick={(e) => e.stopPropagation()}
             style={{ marginRight: '0.5rem' }}
           />
@@ -197,6 +271,12 @@ const RecordCard: React.FC<RecordCardProps> = ({
               Proposed: <span style={{ fontWeight: 500 }}>{proposedFilename}</span>
             </div>
           )}
+          {pairedRecord && (
+            <div className="predicted-filename" style={{ fontSize: '0.95em', color: '#888', marginTop: 2 }}>
+              Picture side: {pairedFilename}
+              {shouldRenamePaired && <> &rarr; <span style={{ fontWeight: 500 }}>{pairedProposedFilename}</span></>}
+            </div>
+          )}
         </div>
         
         <div className="badges-container">
@@ -205,8 +285,46 @@ const RecordCard: React.FC<RecordCardProps> = ({
           </span>
           
           {record.data && (
-            <span className="status-badge status-type">
+            <span className="status-badge status-type" title={getClassificationTitle()}>
               {getDocumentTypeDisplay()}
+              {record.classification && !record.classification.corrected && record.classification.confidence !== 'high' && (
+                <> ({record.classification.confidence})</>
+              )}
+            </span>
+          )}
+          {record.analysis && (
+            <span
+              className="status-badge status-type"
+              title={record.analysis.escalated
+                ? `Escalated to ${record.analysis.provider}: ${record.analysis.escalationReasons?.join(', ')}`
+                : `Extracted by ${record.analysis.provider}`}
+            >
+              {record.analysis.model}{record.analysis.escalated && ' (escalated)'}{record.analysis.textLayer && ', text layer'}{record.analysis.ocr && ', OCR'}
+            </span>
+          )}
+          {record.analysis?.pages && record.analysis.pageCount && record.analysis.pages.length < record.analysis.pageCount && (
+            <span className="status-badge status-type" title={`Analyzed pages: ${record.analysis.pages.join(', ')}`}>
+              {record.analysis.pages.length} of {record.analysis.pageCount} pages
+            </span>
+          )}
+          {record.analysis?.redactions && (
+            <span
+              className="status-badge status-type"
+              title={`Masked before sending with the shared data key: ${Object.entries(record.analysis.redactions).map(([kind, count]) => `${count} ${kind}`).join(', ')}`}
+            >
+              Redacted
+            </span>
+          )}
+          {isSourceOfChildren && (
+            <span className="status-badge status-type" title="Split to create a file per document">
+              {record.childIds?.length} documents
+            </span>
+          )}
+          {isChild && record.pageRange && (
+            <span className="status-badge status-type" title="Document found in this file; rename to write it to a file of its own">
+              {record.pageRange.from === record.pageRange.to
+                ? `Page ${record.pageRange.from}`
+                : `Pages ${record.pageRange.from}-${record.pageRange.to}`}
             </span>
           )}
           {isRenamed && (
@@ -217,7 +335,7 @@ const RecordCard: React.FC<RecordCardProps> = ({
         </div>
       </div>
       
-      {record.status === 'bad' && record.error && (
+      {record.error && record.status !== 'analyzed' && (
         <div className="error-message" style={{ 
           backgroundColor: '#ffebee', 
           color: '#c62828', 
@@ -226,32 +344,96 @@ const RecordCard: React.FC<RecordCardProps> = ({
           borderRadius: '4px',
           fontSize: '0.875rem'
         }}>
-          <strong>Analysis Failed:</strong> {record.error}
+          {record.status === 'bad' && <strong>Analysis Failed: </strong>}{record.error}
         </div>
       )}
       
       <div className="record-fields">
         {showFields && (
           <>
-            {getFieldsForDocumentType(record.documentType).map(fieldName => (
+            {getDisplayFields(declaration).map(fieldName => {
+              const evidence = record.data?.field_evidence?.[fieldName];
+              return (
+                <div key={fieldName} className="field-group">
+                  <label>{fieldName.replace('_', ' ').toUpperCase()}</label>
+                  <input
+                    type="text"
+                    className={evidence?.confidence === 'low' ? 'field-low-confidence' : undefined}
+                    title={getFieldEvidenceTitle(evidence)}
+                    value={getFieldValue(record, fieldName)}
+                    placeholder={`Enter ${fieldName.replace('_', ' ')}`}
+                    data-field={fieldName}
+                    data-record-id={record.id}
+                    onChange={(e) => handleFieldChange(fieldName, e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                </div>
+              );
+            })}
+            {Object.entries(getListFields(declaration)).map(([fieldName, columns]) => (
               <div key={fieldName} className="field-group">
                 <label>{fieldName.replace('_', ' ').toUpperCase()}</label>
-                <input
-                  type="text"
-                  value={(record.data as unknown as Record<string, string>)[fieldName] || ''}
-                  placeholder={`Enter ${fieldName.replace('_', ' ')}`}
-                  data-field={fieldName}
-                  data-record-id={record.id}
-                  onChange={(e) => handleFieldChange(fieldName, e.target.value)}
-                  onClick={(e) => e.stopPropagation()}
-                />
+                <table className="list-field-table">
+                  <thead>
+                    <tr>
+                      {columns.map(column => <th key={column}>{column.replace('_', ' ')}</th>)}
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {getListEntries(fieldName).map((entry, index) => (
+                      <tr key={index}>
+                        {columns.map(column => (
+                          <td key={column}>
+                            <input
+                              type="text"
+                              value={entry[column] ?? ''}
+                              onChange={(e) => handleListEntryChange(fieldName, index, column, e.target.value)}
+                              onClick={(e) => e.stopPropagation()}
+                            />
+                          </td>
+                        ))}
+                        <td>
+                          <button className="btn btn-link btn-sm" onClick={(e) => handleRemoveListEntry(e, fieldName, index)} title="Remove line">
+                            &times;
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <button className="btn btn-link btn-sm" onClick={(e) => handleAddListEntry(e, fieldName, columns)}>
+                  Add line
+                </button>
               </div>
             ))}
+            {totalsProblems.length > 0 && (
+              <div className="totals-warning">
+                <strong>Totals do not add up: </strong>{totalsProblems.join('; ')}
+              </div>
+            )}
           </>
         )}
         
         <div className="action-buttons">
-          {!isMergeMode && (
+          {!isMergeMode && showFields && !isChild && (
+            <select
+              className="form-select form-select-sm document-type-select"
+              value={record.documentType}
+              onChange={handleDocumentTypeChange}
+              onClick={(e) => e.stopPropagation()}
+              disabled={isAnalyzing}
+              title="Correct the document type and re-run the extraction"
+            >
+              {documentTypes.map(documentType => (
+                <option key={documentType.name} value={documentType.name}>
+                  {documentType.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {!isMergeMode && !isChild && (
             <button
               className="btn btn-secondary btn-sm"
               onClick={handleAnalyze}
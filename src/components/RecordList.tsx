@@ -3,9 +3,11 @@
 import React, { useMemo, useState } from 'react';
 import { FileInfo } from '@/types';
 import RecordCard from './RecordCard';
+import { isListedCardSide } from '@/lib/cardPairing';
 
 interface RecordListProps {
   records: FileInfo[];
+  pairedCards: Map<string, FileInfo>; // The other side of each paired card
   searchText: string;
   statusFilter: 'all' | 'new' | 'analyzed' | 'bad';
   onRecordSelect: (record: FileInfo) => void;
@@ -20,6 +22,7 @@ const ITEMS_PER_PAGE = 50;
 
 const RecordList: React.FC<RecordListProps> = ({ 
   records, 
+  pairedCards,
   searchText,
   statusFilter,
   onRecordSelect, 
@@ -40,7 +43,8 @@ const RecordList: React.FC<RecordListProps> = ({
 
   // Apply filters and sorting - memoized to avoid re-computation
   const filteredAndSortedRecords = useMemo(() => {
-    let filtered = [...records];
+    // A paired card is listed once, by its message side, except when merging files
+    let filtered = isMergeMode ? [...records] : records.filter(record => isListedCardSide(record, pairedCards.get(record.id)));
 
     // Apply status filter
     if (statusFilter !== 'all') {
@@ -50,23 +54,29 @@ const RecordList: React.FC<RecordListProps> = ({
     // Apply search filter
     if (searchText.trim()) {
       const searchLower = searchText.toLowerCase();
-      filtered = filtered.filter(record => {
+      const matchesSearch = (record: FileInfo): boolean => {
         const filename = record.currentPath.split('/').pop() || '';
         const originalFilename = record.originalPath.split('/').pop() || '';
         return filename.toLowerCase().includes(searchLower) || 
-               originalFilename.toLowerCase().includes(searchLower);
+               originalFilename.toLowerCase().includes(searchLower) ||
+               !!record.pageTexts?.some(pageText => pageText.text.toLowerCase().includes(searchLower));
+      };
+      filtered = filtered.filter(record => {
+        const pairedRecord = isMergeMode ? undefined : pairedCards.get(record.id);
+        return matchesSearch(record) || (!!pairedRecord && matchesSearch(pairedRecord));
       });
     }
 
-    // Sort by basename, then extension
+    // Sort by basename, then extension; documents found in a file follow it in page order
     return filtered.sort((a, b) => {
       const aBasename = a.currentPath.split('/').pop()?.split('.').shift() || '';
       const bBasename = b.currentPath.split('/').pop()?.split('.').shift() || '';
       const aExtension = a.currentPath.split('/').pop()?.split('.').pop() || '';
       const bExtension = b.currentPath.split('/').pop()?.split('.').pop() || '';
-      return aBasename.localeCompare(bBasename) || aExtension.localeCompare(bExtension);
+      return aBasename.localeCompare(bBasename) || aExtension.localeCompare(bExtension) ||
+        (a.pageRange?.from ?? 0) - (b.pageRange?.from ?? 0);
     });
-  }, [records, searchText, statusFilter]);
+  }, [records, pairedCards, searchText, statusFilter, isMergeMode]);
 
   // Reset to page 1 when filters change
   React.useEffect(() => {
@@ -139,6 +149,7 @@ const RecordList: React.FC<RecordListProps> = ({
             <RecordCard
               key={record.id}
               record={record}
+              pairedRecord={isMergeMode ? undefined : pairedCards.get(record.id)}
               isSelected={currentRecord?.id === record.id}
               onSelect={onRecordSelect}
               onUpdate={onRecordUpdate}
@@ -0,0 +1,84 @@
+'use client';
+
+import React from 'react';
+import type { UsageSummary, UsageTotals } from '@/lib/usageLedgerService';
+
+interface UsagePanelProps {
+  summary: UsageSummary;
+  onClose: () => void;
+}
+
+const MAX_DAYS = 14;
+
+export const formatCost = (cost: number): string => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const UsageTable: React.FC<{ title: string; rows: Record<string, UsageTotals>; sortByKey?: boolean; limit?: number }> = ({ title, rows, sortByKey = false, limit }) => {
+  const entries = Object.entries(rows).sort((a, b) =>
+    sortByKey ? b[0].localeCompare(a[0]) : b[1].cost - a[1].cost
+  ).slice(0, limit);
+
+  return (
+    <div className="col-md-4">
+      <h6>{title}</h6>
+      {entries.length === 0 ? (
+        <small className="text-muted">No usage recorded</small>
+      ) : (
+        <table className="table table-sm usage-table">
+          <thead>
+            <tr>
+              <th></th>
+              <th className="text-end">Calls</th>
+              <th className="text-end">Tokens</th>
+              <th className="text-end">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(([key, totals]) => (
+              <tr key={key}>
+                <td title={key}>{key.split('/').pop() || key}</td>
+                <td className="text-end">{totals.calls}</td>
+                <td className="text-end">{(totals.promptTokens + totals.completionTokens).toLocaleString()}</td>
+                <td className="text-end">{formatCost(totals.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ summary, onClose }) => {
+  return (
+    <div className="usage-panel p-2 bg-light rounded mb-3">
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <div>
+          <strong>LLM usage:</strong>
+          <span className="ms-2">
+            {formatCost(summary.total.cost)} for {summary.total.calls} calls ({summary.total.pages} pages)
+          </span>
+          {Object.entries(summary.byKeyMode).map(([keyMode, totals]) => (
+            <span key={keyMode} className="ms-3 text-muted">
+              {keyMode} key: {formatCost(totals.cost)}
+            </span>
+          ))}
+        </div>
+        <button className="btn btn-sm btn-outline-secondary" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <div className="row">
+        <UsageTable title={`Per day (last ${MAX_DAYS})`} rows={summary.byDay} sortByKey limit={MAX_DAYS} />
+        <UsageTable title="Per model" rows={summary.byModel} />
+        <UsageTable title="Per folder" rows={summary.byFolder} />
+      </div>
+      {summary.unpricedModels.length > 0 && (
+        <small className="text-warning">
+          No price known for: {summary.unpricedModels.join(', ')} (add them to prices in config/settings.json)
+        </small>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
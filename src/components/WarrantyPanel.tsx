@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { WarrantyEntry } from '@/lib/warrantyRegister';
+
+interface WarrantyPanelProps {
+  onClose: () => void;
+}
+
+const formatDate = (date?: string): string =>
+  date ? `${date.substring(0, 4)}-${date.substring(4, 6)}-${date.substring(6, 8)}` : '';
+
+const getReceiptUrl = (entry: WarrantyEntry): string =>
+  `/api/${entry.type === 'pdf' ? 'get-pdf' : 'get-image'}?path=${encodeURIComponent(entry.currentPath)}`;
+
+const WarrantyPanel: React.FC<WarrantyPanelProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<WarrantyEntry[] | null>(null);
+
+  useEffect(() => {
+    const loadWarranties = async () => {
+      try {
+        const response = await fetch('/api/warranties');
+        if (response.ok) {
+          setEntries(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading warranty register:', error);
+      }
+    };
+    loadWarranties();
+  }, []);
+
+  return (
+    <div className="warranty-panel p-2 bg-light rounded mb-3">
+      <div className="d-flex justify-content-between align-items-center mb-2">
+        <strong>Warranties</strong>
+        <button className="btn btn-sm btn-outline-secondary" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {!entries ? (
+        <small className="text-muted">Loading...</small>
+      ) : entries.length === 0 ? (
+        <small className="text-muted">No purchases analyzed yet</small>
+      ) : (
+        <table className="table table-sm warranty-table">
+          <thead>
+            <tr>
+              <th>Product</th>
+              <th>Serial number</th>
+              <th>Store</th>
+              <th>Purchased</th>
+              <th>Warranty until</th>
+              <th>Receipt</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.fileId} className={entry.expired ? 'text-muted' : undefined}>
+                <td>{[entry.brand, entry.product_name, entry.model].filter(Boolean).join(' ')}</td>
+                <td>{entry.serial_number}</td>
+                <td>{entry.store}</td>
+                <td>{formatDate(entry.purchase_date)}</td>
+                <td>
+                  {entry.expiry_date ? formatDate(entry.expiry_date) : 'unknown'}
+                  {entry.expired && ' (expired)'}
+                </td>
+                <td>
+                  <a href={getReceiptUrl(entry)} target="_blank" rel="noopener noreferrer" title={entry.currentPath}>
+                    {entry.currentPath.split('/').pop()}
+                  </a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default WarrantyPanel;
@@ -2,18 +2,27 @@ import { Logger } from './logger';
 import { promises as fs } from 'node:fs';
 import path from 'path';
 import crypto from 'crypto';
-import { DocumentType } from '@/types';
+import { AnalysisInfo, DocumentClassification, DocumentTypeName, PageText } from '@/types';
+import type { AnalysisAttempt, ExtractedDocument } from './llmService';
+import { hasDeclaredFields } from './documentSchemas';
 
 export interface CachedAnalysis {
   fileHash: string;
   originalPath: string;
   analysisResult: unknown;
-  documentType: DocumentType;
+  documentType: DocumentTypeName;
+  classification?: DocumentClassification;
+  children?: ExtractedDocument[];   // Set when the file holds more than one document
+  analysis?: AnalysisInfo;
+  attempts?: AnalysisAttempt[];     // Every extraction, including the escalated one
+  pageTexts?: PageText[];
   timestamp: string;
   confidence?: string;
   extractionStatus?: string;
 }
 
+export type CachedAnalysisDetails = Pick<CachedAnalysis, 'classification' | 'children' | 'analysis' | 'attempts' | 'pageTexts'>;
+
 export interface AnalysisCache {
   cachedResults: CachedAnalysis[];
   lastUpdated: string;
@@ -84,6 +93,11 @@ export class CacheService {
       const fileHash = await this.calculateFileHash(filePath);
       const cachedResult = this.cache.cachedResults.find(result => result.fileHash === fileHash);
       
+      // A result cached before its document type changed fields is analyzed again
+      if (cachedResult && !this.matchesDeclaredFields(cachedResult)) {
+        this.logger.info(`Cached result no longer matches the ${cachedResult.documentType} fields: ${filePath}`);
+        return null;
+      }
       if (cachedResult) {
         this.logger.debug(`Cache hit for file: ${filePath}`);
         return cachedResult;
@@ -97,7 +111,14 @@ export class CacheService {
     }
   }
 
-  async cacheResult(filePath: string, analysisResult: unknown, documentType: string): Promise<void> {
+  private matchesDeclaredFields(cachedResult: CachedAnalysis): boolean {
+    if (cachedResult.children?.length) {
+      return cachedResult.children.every(child => hasDeclaredFields(child.documentType, child.data));
+    }
+    return hasDeclaredFields(cachedResult.documentType, cachedResult.analysisResult);
+  }
+
+  async cacheResult(filePath: string, analysisResult: unknown, documentType: string, details: CachedAnalysisDetails = {}): Promise<void> {
     try {
       const fileHash = await this.calculateFileHash(filePath);
       
@@ -112,6 +133,7 @@ export class CacheService {
         originalPath: filePath,
         analysisResult,
         documentType,
+        ...details,
         timestamp: new Date().toISOString(),
         confidence: analysisResult.confidence,
         extractionStatus: analysisResult.extraction_status,
@@ -127,8 +149,8 @@ export class CacheService {
     }
   }
 
-  async updateCachedResult(filePath: string, analysisResult: unknown, documentType: string): Promise<void> {
-    await this.cacheResult(filePath, analysisResult, documentType);
+  async updateCachedResult(filePath: string, analysisResult: unknown, documentType: string, details: CachedAnalysisDetails = {}): Promise<void> {
+    await this.cacheResult(filePath, analysisResult, documentType, details);
   }
 
   async removeCachedResult(filePath: string): Promise<void> {
@@ -0,0 +1,76 @@
+import { CardData, DocumentType, FileInfo } from '@/types';
+
+// Fields of the message side that the picture side usually lacks
+const SHARED_CARD_FIELDS: (keyof CardData)[] = ['card_date', 'card_type', 'occasion', 'sender', 'recipient'];
+
+function getCardSide(file: FileInfo): CardData['side'] {
+  if (file.documentType !== DocumentType.CARD || file.status !== 'analyzed' || !file.data) {
+    return undefined;
+  }
+  return (file.data as CardData).side;
+}
+
+function getFolder(filePath: string): string {
+  return filePath.substring(0, filePath.lastIndexOf('/'));
+}
+
+/**
+ * Both sides of a card are scanned one after the other, so a picture side
+ * and a message side that are next to each other in scan order (the original
+ * filenames in a folder) are taken as the same card. Returns the other side
+ * for the id of either side.
+ */
+export function getPairedCards(files: FileInfo[]): Map<string, FileInfo> {
+  const folders = new Map<string, FileInfo[]>();
+  for (const file of files) {
+    // A file holding several documents is not a card side itself
+    if (file.parentId || file.childIds?.length) {
+      continue;
+    }
+    const folder = getFolder(file.originalPath);
+    folders.set(folder, [...(folders.get(folder) || []), file]);
+  }
+
+  const pairs = new Map<string, FileInfo>();
+  for (const folderFiles of folders.values()) {
+    const scanOrder = [...folderFiles].sort((a, b) => a.originalPath.localeCompare(b.originalPath, undefined, { numeric: true }));
+    for (let i = 0; i < scanOrder.length - 1; i++) {
+      const [first, second] = [scanOrder[i], scanOrder[i + 1]];
+      const firstSide = getCardSide(first);
+      const secondSide = getCardSide(second);
+      const firstType = (first.data as CardData | undefined)?.card_type;
+      const secondType = (second.data as CardData | undefined)?.card_type;
+      if (firstSide && secondSide && firstSide !== secondSide && (!firstType || !secondType || firstType === secondType)) {
+        pairs.set(first.id, second);
+        pairs.set(second.id, first);
+        i++;
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * The picture side with the date, sender and recipient it lacks taken from
+ * the message side, so both sides get matching filenames
+ */
+export function withPairedCardData(record: FileInfo, pairedRecord?: FileInfo): FileInfo {
+  if (!pairedRecord?.data || getCardSide(record) !== 'picture') {
+    return record;
+  }
+  const data = { ...record.data } as CardData;
+  const pairedData = pairedRecord.data as CardData;
+  for (const field of SHARED_CARD_FIELDS) {
+    if (!data[field] && pairedData[field]) {
+      (data as unknown as Record<string, unknown>)[field] = pairedData[field];
+    }
+  }
+  return { ...record, data };
+}
+
+/**
+ * The side listed for a paired card; the picture side is shown with it
+ */
+export function isListedCardSide(record: FileInfo, pairedRecord?: FileInfo): boolean {
+  return !pairedRecord || getCardSide(record) === 'message';
+}
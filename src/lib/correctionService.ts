@@ -0,0 +1,210 @@
+import { Logger } from './logger';
+import { promises as fs } from 'node:fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentData, DocumentTypeName, FileInfo } from '@/types';
+import { getDocumentTypeDeclaration } from './settings';
+
+export interface FieldCorrection {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface Correction {
+  id: string;
+  timestamp: string;
+  documentType: DocumentTypeName;
+  supplier: string;          // Supplier name after the correction
+  supplierKeys: string[];    // Normalized supplier names before and after the correction
+  filePath: string;
+  fileId?: string;           // Not set on corrections recorded before it was added
+  changes: FieldCorrection[];
+}
+
+export interface CorrectionStore {
+  corrections: Correction[];
+  lastUpdated: string;
+}
+
+export interface CorrectionFilter {
+  supplier?: string;
+  documentType?: DocumentTypeName;
+}
+
+/**
+ * The field that identifies who a document is from, see supplierField of the
+ * document type
+ */
+export function getSupplierName(documentType: DocumentTypeName, data?: DocumentData): string {
+  const supplierField = getDocumentTypeDeclaration(documentType)?.supplierField;
+  const fields = data as unknown as Record<string, unknown> | undefined;
+  return supplierField ? String(fields?.[supplierField] || '') : '';
+}
+
+export function normalizeSupplier(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * One line per correction, as added to the extraction prompt
+ */
+export function formatCorrection(correction: Correction): string {
+  const changes = correction.changes
+    .map(change => `${change.field} "${change.before}" should be "${change.after}"`)
+    .join('; ');
+  return `- ${correction.documentType}${correction.supplier ? ` from ${correction.supplier}` : ''}: ${changes}`;
+}
+
+// Rough estimate, good enough to keep the examples within budget
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Keeps the fields that were corrected by hand, so the model can be shown
+ * earlier mistakes for the same supplier as few-shot examples
+ */
+export class CorrectionService {
+  private logger: Logger;
+  private storePath: string;
+  private store: CorrectionStore;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    this.storePath = path.join(process.cwd(), 'state', 'corrections.json');
+    this.store = {
+      corrections: [],
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  async loadCorrections(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.storePath, 'utf-8');
+      this.store = JSON.parse(data);
+      this.logger.debug('Corrections loaded successfully');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`Error reading corrections: ${error}`);
+      }
+      this.store = {
+        corrections: [],
+        lastUpdated: new Date().toISOString(),
+      };
+    }
+  }
+
+  async saveCorrections(): Promise<void> {
+    try {
+      this.store.lastUpdated = new Date().toISOString();
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      await fs.writeFile(this.storePath, JSON.stringify(this.store, null, 2));
+      this.logger.debug('Corrections saved successfully');
+    } catch (error) {
+      this.logger.error(`Error saving corrections: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the schema fields that differ between the extracted and the
+   * corrected data. Before is the model's extraction, so a later save of the
+   * same file replaces its earlier correction. Returns null when nothing
+   * differs.
+   */
+  async recordCorrection(fileInfo: FileInfo, before: DocumentData, after: DocumentData): Promise<Correction | null> {
+    const schema = getDocumentTypeDeclaration(fileInfo.documentType);
+    if (!schema) {
+      return null;
+    }
+
+    const beforeFields = before as unknown as Record<string, unknown>;
+    const afterFields = after as unknown as Record<string, unknown>;
+    // List fields such as invoice lines do not make a useful one-line hint
+    const changes: FieldCorrection[] = Object.keys(schema.fields)
+      .filter(field => schema.fields[field].type !== 'list')
+      .map(field => ({ field, before: String(beforeFields[field] ?? ''), after: String(afterFields[field] ?? '') }))
+      .filter(change => change.before !== change.after);
+
+    // Reload first, every API route has its own service instance
+    await this.loadCorrections();
+    const initialCount = this.store.corrections.length;
+    this.store.corrections = this.store.corrections.filter(correction => correction.fileId !== fileInfo.id);
+    if (changes.length === 0) {
+      if (this.store.corrections.length < initialCount) {
+        await this.saveCorrections();
+      }
+      return null;
+    }
+
+    const supplierBefore = getSupplierName(fileInfo.documentType, before);
+    const supplierAfter = getSupplierName(fileInfo.documentType, after);
+    const correction: Correction = {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      documentType: fileInfo.documentType,
+      supplier: supplierAfter,
+      supplierKeys: [...new Set([supplierBefore, supplierAfter].map(normalizeSupplier).filter(Boolean))],
+      filePath: fileInfo.currentPath,
+      fileId: fileInfo.id,
+      changes,
+    };
+
+    this.store.corrections.push(correction);
+    await this.saveCorrections();
+
+    this.logger.info(`Recorded correction of ${changes.map(change => change.field).join(', ')} for ${fileInfo.currentPath}`);
+    return correction;
+  }
+
+  getCorrections(filter: CorrectionFilter = {}): Correction[] {
+    const supplierKey = filter.supplier ? normalizeSupplier(filter.supplier) : '';
+    return this.store.corrections.filter(correction =>
+      (!filter.documentType || correction.documentType === filter.documentType) &&
+      (!supplierKey || correction.supplierKeys.includes(supplierKey))
+    );
+  }
+
+  /**
+   * Remove corrections by id, or all corrections matching the filter.
+   * Returns the number of corrections removed.
+   */
+  async removeCorrections(ids?: string[], filter?: CorrectionFilter): Promise<number> {
+    await this.loadCorrections();
+    const toRemove = new Set(ids || this.getCorrections(filter).map(correction => correction.id));
+    const initialCount = this.store.corrections.length;
+    this.store.corrections = this.store.corrections.filter(correction => !toRemove.has(correction.id));
+
+    const removedCount = initialCount - this.store.corrections.length;
+    if (removedCount > 0) {
+      await this.saveCorrections();
+    }
+    this.logger.info(`Removed ${removedCount} corrections`);
+    return removedCount;
+  }
+
+  /**
+   * Pick the examples for an extraction prompt: the latest corrections for the
+   * same supplier first, then the latest ones for the same document type,
+   * until maxExamples or the token budget is reached
+   */
+  selectExamples(documentType: DocumentTypeName, supplier: string | undefined, maxExamples: number, maxTokens: number): Correction[] {
+    const supplierKey = supplier ? normalizeSupplier(supplier) : '';
+    const candidates = this.getCorrections({ documentType })
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .sort((a, b) => Number(b.supplierKeys.includes(supplierKey)) - Number(a.supplierKeys.includes(supplierKey)));
+
+    const examples: Correction[] = [];
+    let tokens = 0;
+    for (const candidate of candidates) {
+      const candidateTokens = estimateTokens(formatCorrection(candidate));
+      if (examples.length >= maxExamples || tokens + candidateTokens > maxTokens) {
+        break;
+      }
+      examples.push(candidate);
+      tokens += candidateTokens;
+    }
+    return examples;
+  }
+}
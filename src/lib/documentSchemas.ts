@@ -0,0 +1,285 @@
+import { DocumentData, DocumentTypeName, FieldEvidence, PageRange } from '@/types';
+import type { FieldSchema } from './documentTypes';
+import { getDocumentTypeDeclaration, loadDocumentTypes } from './settings';
+
+export interface FieldError {
+  field: string;
+  message: string;
+  value?: unknown;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: FieldError[];
+  data?: DocumentData;
+  documentType?: DocumentTypeName;
+  pageRange?: PageRange;
+}
+
+/**
+ * Thrown when the model output still fails validation after the repair round-trip
+ */
+export class DocumentValidationError extends Error {
+  errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(`Invalid LLM output: ${errors.map(e => `${e.field} (${e.message})`).join(', ')}`);
+    this.name = 'DocumentValidationError';
+    this.errors = errors;
+  }
+}
+
+const EXTRACTION_STATUSES = ['success', 'partial', 'failed'];
+const CONFIDENCE_LEVELS = ['low', 'medium', 'high'];
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{8}$/.test(value)) {
+    return false;
+  }
+  const year = parseInt(value.substring(0, 4), 10);
+  const month = parseInt(value.substring(4, 6), 10);
+  const day = parseInt(value.substring(6, 8), 10);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Check a single field value against its schema. Returns the normalized value
+ * or an error message.
+ */
+function validateField(schema: FieldSchema, value: unknown): { value?: unknown; error?: string } {
+  if (isBlank(value)) {
+    return { value: schema.type === 'list' ? [] : schema.default ?? '' };
+  }
+
+  switch (schema.type) {
+    case 'list': {
+      if (!Array.isArray(value)) {
+        return { error: 'expected a list of objects' };
+      }
+      const entries: Record<string, unknown>[] = [];
+      for (const [index, entry] of value.entries()) {
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+          return { error: `entry ${index + 1}: expected an object` };
+        }
+        const validated: Record<string, unknown> = {};
+        for (const [fieldName, fieldSchema] of Object.entries(schema.items || {})) {
+          const { value: fieldValue, error } = validateField(fieldSchema, (entry as Record<string, unknown>)[fieldName]);
+          if (error) {
+            return { error: `entry ${index + 1} ${fieldName}: ${error}` };
+          }
+          validated[fieldName] = fieldValue;
+        }
+        entries.push(validated);
+      }
+      return { value: entries };
+    }
+
+    case 'integer': {
+      const text = String(value).trim();
+      if (!/^-?\d+$/.test(text)) {
+        return { error: 'expected a whole number' };
+      }
+      return { value: parseInt(text, 10) };
+    }
+
+    case 'amount': {
+      const text = String(value).trim();
+      if (!/^-?\d+(\.\d+)?$/.test(text)) {
+        return { error: 'expected a plain number with a dot as decimal separator, without currency symbol' };
+      }
+      return { value: text };
+    }
+
+    case 'date': {
+      const text = String(value).trim();
+      if (!isValidDate(text)) {
+        return { error: 'expected a date formatted as YYYYMMDD' };
+      }
+      return { value: text };
+    }
+
+    case 'month': {
+      const text = String(value).trim();
+      if (!/^\d{4}(0[1-9]|1[0-2])$/.test(text)) {
+        return { error: 'expected a month formatted as YYYYMM' };
+      }
+      return { value: text };
+    }
+
+    case 'currency': {
+      const text = String(value).trim();
+      if (!/^[A-Z]{3}$/.test(text)) {
+        return { error: 'expected a three letter currency code such as EUR' };
+      }
+      return { value: text };
+    }
+
+    case 'enum': {
+      const text = String(value).trim();
+      if (!schema.values?.includes(text)) {
+        return { error: `expected one of ${schema.values?.join(', ')}` };
+      }
+      return { value: text };
+    }
+
+    case 'string':
+    default:
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return { error: 'expected text' };
+      }
+      return { value: String(value) };
+  }
+}
+
+/**
+ * Optional "pages": [first, last] on a result, set when the scan holds more
+ * than one document. A single page may also be given as a number.
+ */
+function validatePages(value: unknown): { pageRange?: PageRange; error?: string } {
+  if (isBlank(value)) {
+    return {};
+  }
+  const pages = Array.isArray(value) ? value : [value];
+  const numbers = pages.map(page => Number(page));
+  if (numbers.length < 1 || numbers.length > 2 || numbers.some(page => !Number.isInteger(page) || page < 1)) {
+    return { error: 'expected [first_page, last_page] with page numbers starting at 1' };
+  }
+  const [from, to = from] = numbers;
+  if (to < from) {
+    return { error: 'last page is before first page' };
+  }
+  return { pageRange: { from, to } };
+}
+
+const MAX_SOURCE_LENGTH = 200;
+
+/**
+ * Optional "evidence": { <field>: { confidence, source, page } } on a result.
+ * Evidence is advisory, so unusable entries are dropped instead of failing
+ * the extraction.
+ */
+function parseEvidence(value: unknown, fieldNames: string[]): Record<string, FieldEvidence> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const evidence: Record<string, FieldEvidence> = {};
+  for (const [fieldName, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!fieldNames.includes(fieldName) || !entry || typeof entry !== 'object') {
+      continue;
+    }
+    const { confidence, source, page } = entry as Record<string, unknown>;
+    if (!CONFIDENCE_LEVELS.includes(confidence as string)) {
+      continue;
+    }
+
+    const fieldEvidence: FieldEvidence = { confidence: confidence as FieldEvidence['confidence'] };
+    if (typeof source === 'string' && source.trim() !== '') {
+      fieldEvidence.source = source.trim().substring(0, MAX_SOURCE_LENGTH);
+    }
+    if (Number.isInteger(Number(page)) && Number(page) >= 1) {
+      fieldEvidence.page = Number(page);
+    }
+    evidence[fieldName] = fieldEvidence;
+  }
+
+  return Object.keys(evidence).length > 0 ? evidence : undefined;
+}
+
+/**
+ * Validate one result object as returned by the model
+ * ({ document_type, extraction_status, confidence, pages?, fields, evidence? }) and
+ * convert it into typed document data
+ */
+export function validateDocumentResult(item: unknown): ValidationResult {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { valid: false, errors: [{ field: 'result', message: 'expected a JSON object', value: item }] };
+  }
+
+  const result = item as Record<string, unknown>;
+  const documentType = String(result.document_type);
+  const schema = getDocumentTypeDeclaration(documentType);
+  if (!schema) {
+    return {
+      valid: false,
+      errors: [{
+        field: 'document_type',
+        message: `expected one of ${loadDocumentTypes().map(declaration => declaration.name).join(', ')}`,
+        value: result.document_type,
+      }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const fields = (result.fields && typeof result.fields === 'object' ? result.fields : {}) as Record<string, unknown>;
+  const data: Record<string, unknown> = {};
+
+  for (const [fieldName, fieldSchema] of Object.entries(schema.fields)) {
+    const { value, error } = validateField(fieldSchema, fields[fieldName]);
+    if (error) {
+      errors.push({ field: fieldName, message: error, value: fields[fieldName] });
+    } else {
+      data[fieldName] = value;
+    }
+  }
+
+  const extractionStatus = isBlank(result.extraction_status) ? 'partial' : result.extraction_status;
+  if (!EXTRACTION_STATUSES.includes(extractionStatus as string)) {
+    errors.push({ field: 'extraction_status', message: `expected one of ${EXTRACTION_STATUSES.join(', ')}`, value: extractionStatus });
+  }
+  const confidence = isBlank(result.confidence) ? 'low' : result.confidence;
+  if (!CONFIDENCE_LEVELS.includes(confidence as string)) {
+    errors.push({ field: 'confidence', message: `expected one of ${CONFIDENCE_LEVELS.join(', ')}`, value: confidence });
+  }
+
+  const { pageRange, error: pagesError } = validatePages(result.pages);
+  if (pagesError) {
+    errors.push({ field: 'pages', message: pagesError, value: result.pages });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, documentType };
+  }
+
+  data.extraction_status = extractionStatus;
+  data.confidence = confidence;
+  const fieldEvidence = parseEvidence(result.evidence, Object.keys(schema.fields));
+  if (fieldEvidence) {
+    data.field_evidence = fieldEvidence;
+  }
+  return { valid: true, errors: [], data: data as unknown as DocumentData, documentType, pageRange };
+}
+
+/**
+ * Required fields of the document type that are empty in data. Unknown
+ * document types have no schema and return undefined.
+ */
+export function getMissingRequiredFields(documentType: DocumentTypeName, data: DocumentData): string[] | undefined {
+  const schema = getDocumentTypeDeclaration(documentType);
+  if (!schema) {
+    return undefined;
+  }
+  const fields = data as unknown as Record<string, unknown>;
+  return Object.entries(schema.fields)
+    .filter(([fieldName, fieldSchema]) => fieldSchema.required && isBlank(fields[fieldName]))
+    .map(([fieldName]) => fieldName);
+}
+
+/**
+ * Whether data has every required field of its document type, even if empty.
+ * Data validated against an older schema of the type (e.g. bank statements
+ * extracted as generic documents) does not.
+ */
+export function hasDeclaredFields(documentType: DocumentTypeName, data: unknown): boolean {
+  const schema = getDocumentTypeDeclaration(documentType);
+  if (!schema || !data || typeof data !== 'object') {
+    return false;
+  }
+  return Object.entries(schema.fields)
+    .every(([fieldName, fieldSchema]) => !fieldSchema.required || fieldName in data);
+}
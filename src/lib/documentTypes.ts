@@ -0,0 +1,350 @@
+import { DocumentType } from '@/types';
+
+export type FieldType = 'string' | 'date' | 'month' | 'amount' | 'integer' | 'currency' | 'enum' | 'list';
+
+export const FIELD_TYPES: FieldType[] = ['string', 'date', 'month', 'amount', 'integer', 'currency', 'enum', 'list'];
+
+export interface FieldSchema {
+  type: FieldType;
+  values?: string[];          // Allowed values for enum fields
+  default?: string | number;  // Used when the model leaves the field blank
+  required?: boolean;         // Needed for complete data (and a proper filename)
+  items?: Record<string, FieldSchema>; // Fields of each entry of a list field
+  description?: string;       // What to extract, for the generated prompt fragment
+}
+
+/**
+ * Everything the app needs to know about a document type. The built-in types
+ * are declared below, more can be declared in config/document-types.json.
+ */
+export interface DocumentTypeDeclaration {
+  name: string;
+  label: string;              // Shown on the record
+  description: string;        // Line in the classification prompt
+  fields: Record<string, FieldSchema>; // In the order they are shown on the record
+  // Fields part of the extraction prompt. Without it prompts/<version>/types/<name>.txt
+  // is used, or else a fragment generated from the fields.
+  prompt?: string;
+  // Filename template such as "{document_date}-vehicle-{license_plate}", see
+  // parseFilenameTemplate. Without it files of the type are not renamed.
+  filenameTemplate?: string;
+  supplierField?: string;     // Field naming who the document is from, for learned corrections
+}
+
+export const BUILT_IN_DOCUMENT_TYPES: DocumentTypeDeclaration[] = [
+  {
+    name: DocumentType.INVOICE,
+    label: 'Invoice',
+    description: 'an invoice, bill or receipt with an amount to pay or paid',
+    supplierField: 'company_name',
+    filenameTemplate: "{invoice_date}-{company_name}-{description}-{invoice_currency|'EUR'}{invoice_amount}",
+    fields: {
+      invoice_date: { type: 'date', required: true },
+      company_name: { type: 'string', required: true },
+      description: { type: 'string', required: true },
+      invoice_currency: { type: 'currency', default: 'EUR' },
+      invoice_amount: { type: 'amount', required: true },
+      vat_amount: { type: 'amount' },
+      total_amount: { type: 'amount' },
+      line_items: {
+        type: 'list',
+        items: {
+          description: { type: 'string' },
+          quantity: { type: 'amount', default: '1' },
+          unit_price: { type: 'amount' },
+          vat_rate: { type: 'amount' },
+        },
+      },
+      vat_breakdown: {
+        type: 'list',
+        items: {
+          rate: { type: 'amount' },
+          net: { type: 'amount' },
+          vat: { type: 'amount' },
+          gross: { type: 'amount' },
+        },
+      },
+    },
+  },
+  {
+    name: DocumentType.MOVIE_COVER,
+    label: 'Movie Cover',
+    description: 'the cover of a DVD or Blu-ray movie or series',
+    filenameTemplate: 'cover-{movie_title!}[-S{season}]-{disc_number}-{media_format}-{duration}',
+    fields: {
+      movie_title: { type: 'string', required: true },
+      type: { type: 'enum', values: ['movie', 'series'], default: 'movie', required: true },
+      season: { type: 'integer', default: 0 },
+      disc_number: { type: 'string' },
+      media_format: { type: 'enum', values: ['DVD', 'Blu-ray'], default: 'DVD', required: true },
+      description: { type: 'string' },
+      duration: { type: 'string' },
+      imdb_id: { type: 'string' },
+    },
+  },
+  {
+    name: DocumentType.MEDIA_COVER,
+    label: 'Media Cover',
+    description: 'the cover of a music CD, vinyl record, video game or book',
+    filenameTemplate: 'cover-{media_format}-{artist|author}-{title!}-{platform}-{disc_number}',
+    fields: {
+      title: { type: 'string', required: true },
+      media_format: { type: 'enum', values: ['CD', 'vinyl', 'game', 'book'], required: true },
+      artist: { type: 'string' },
+      author: { type: 'string' },
+      publisher: { type: 'string' },
+      year: { type: 'integer' },
+      track_count: { type: 'integer', default: 0 },
+      platform: { type: 'string' },
+      isbn: { type: 'string' },
+      disc_number: { type: 'string' },
+      description: { type: 'string' },
+    },
+  },
+  {
+    name: DocumentType.REKENINGAFSCHRIFT,
+    label: 'Bank Statement',
+    description: 'a bank account statement listing transactions',
+    supplierField: 'bank_name',
+    filenameTemplate: '{statement_date}_rekeningafschrift_{bank_name}_{bank_account_number:compact!}[_p{page_number}[of{number_of_pages}]]_{account_holder_name}',
+    fields: {
+      statement_date: { type: 'date', required: true },
+      bank_name: { type: 'string' },
+      bank_account_number: { type: 'string', required: true },
+      account_holder_name: { type: 'string', required: true },
+      period_start: { type: 'date' },
+      period_end: { type: 'date' },
+      currency: { type: 'currency', default: 'EUR' },
+      opening_balance: { type: 'amount' },
+      closing_balance: { type: 'amount' },
+      page_number: { type: 'integer' },
+      number_of_pages: { type: 'integer' },
+      description: { type: 'string' },
+    },
+  },
+  {
+    name: DocumentType.LOONSTROOK,
+    label: 'Payslip',
+    description: 'a payslip (salarisstrook) for one month or period; a jaaropgave (annual statement) is generic',
+    supplierField: 'employer',
+    filenameTemplate: '{period!}-loonstrook-{employer}',
+    fields: {
+      period: { type: 'month', required: true },
+      employer: { type: 'string', required: true },
+      employee_name: { type: 'string' },
+      currency: { type: 'currency', default: 'EUR' },
+      gross_salary: { type: 'amount', required: true },
+      net_salary: { type: 'amount', required: true },
+      loonheffing: { type: 'amount' },
+      holiday_allowance: { type: 'amount' },
+      pension_contribution: { type: 'amount' },
+    },
+  },
+  {
+    name: DocumentType.INSURANCE,
+    label: 'Insurance',
+    description: 'an insurance policy (polisblad), a premium notice or another letter about an insurance policy',
+    supplierField: 'insurer',
+    filenameTemplate: '{document_date}-insurance-{insurer!}-{coverage_type}-{policy_number}',
+    fields: {
+      document_date: { type: 'date', required: true },
+      insurer: { type: 'string', required: true },
+      policy_number: { type: 'string', required: true },
+      coverage_type: { type: 'string', required: true },
+      currency: { type: 'currency', default: 'EUR' },
+      premium_amount: { type: 'amount' },
+      premium_frequency: { type: 'enum', values: ['monthly', 'quarterly', 'half-yearly', 'yearly'] },
+      start_date: { type: 'date' },
+      renewal_date: { type: 'date' },
+      end_date: { type: 'date' },
+    },
+  },
+  {
+    name: DocumentType.UTILITY_BILL,
+    label: 'Utility Bill',
+    description: 'a bill or annual statement (jaarnota) for electricity, gas, water or district heating',
+    supplierField: 'supplier',
+    filenameTemplate: '{document_date}-utility_bill-{supplier!}[-{period_start}_{period_end}]',
+    fields: {
+      document_date: { type: 'date', required: true },
+      supplier: { type: 'string', required: true },
+      period_start: { type: 'date', required: true },
+      period_end: { type: 'date', required: true },
+      currency: { type: 'currency', default: 'EUR' },
+      advance_payment: { type: 'amount' },
+      settlement_amount: { type: 'amount' },
+      meter_readings: {
+        type: 'list',
+        items: {
+          utility: { type: 'enum', values: ['electricity', 'gas', 'water', 'heat'] },
+          meter_number: { type: 'string' },
+          tariff: { type: 'string' },
+          start_reading: { type: 'amount' },
+          end_reading: { type: 'amount' },
+          consumption: { type: 'amount' },
+          unit: { type: 'string' },
+        },
+      },
+    },
+  },
+  {
+    name: DocumentType.PURCHASE,
+    label: 'Purchase',
+    description: 'a receipt or invoice for an appliance, electronics or another durable product that is kept as warranty proof',
+    supplierField: 'store',
+    filenameTemplate: '{purchase_date}-purchase-{brand}-{product_name!}-{model}',
+    fields: {
+      purchase_date: { type: 'date', required: true },
+      store: { type: 'string', required: true },
+      product_name: { type: 'string', required: true },
+      brand: { type: 'string' },
+      model: { type: 'string' },
+      serial_number: { type: 'string' },
+      currency: { type: 'currency', default: 'EUR' },
+      price: { type: 'amount' },
+      warranty_months: { type: 'integer', default: 0 },
+    },
+  },
+  {
+    name: DocumentType.CARD,
+    label: 'Card',
+    description: 'one side of a postcard or greeting card (birthday, Christmas, condolence, ...): the picture side or the message side',
+    supplierField: 'sender',
+    filenameTemplate: "{card_date}-{card_type|'card'}-{occasion}[-from_{sender}][-to_{recipient}]-{side}",
+    fields: {
+      card_date: { type: 'date' },
+      card_type: { type: 'enum', values: ['postcard', 'greeting_card'], required: true },
+      side: { type: 'enum', values: ['picture', 'message'], required: true },
+      occasion: { type: 'string' },
+      sender: { type: 'string' },
+      recipient: { type: 'string' },
+      picture: { type: 'string' },
+      description: { type: 'string' },
+    },
+  },
+  {
+    name: DocumentType.DRAWING,
+    label: 'Drawing',
+    description: 'a drawing, painting or craft made by a child',
+    filenameTemplate: '{drawing_date|school_year}-drawing-{child_name!}-{subject}',
+    fields: {
+      child_name: { type: 'string', required: true },
+      drawing_date: { type: 'date' },
+      school_year: { type: 'string' },
+      age: { type: 'integer', default: 0 },
+      subject: { type: 'string', required: true },
+      description: { type: 'string' },
+    },
+  },
+  // Kept last: the prompts list the types in this order, and this one catches the rest
+  {
+    name: DocumentType.GENERIC,
+    label: 'Generic',
+    description: 'any other document (letters, contracts, tax returns, certificates, ...)',
+    supplierField: 'source',
+    filenameTemplate: '{document_date}_{document_category}_{source}_{description}',
+    fields: {
+      document_date: { type: 'date', required: true },
+      document_category: { type: 'string', required: true },
+      description: { type: 'string', required: true },
+      source: { type: 'string' },
+    },
+  },
+];
+
+export type TemplatePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'field'; fields: string[]; fallback?: string; compact: boolean; required: boolean }
+  | { kind: 'group'; parts: TemplatePart[] };
+
+/**
+ * Parse a filename template. A placeholder is a field name in braces, with
+ * optionally:
+ * - alternatives, the first one with a value is used: {artist|author}
+ * - a quoted text last, used when no field has a value: {currency|'EUR'}
+ * - :compact to remove the underscores from the value: {account:compact}
+ * - a trailing ! when the file is not renamed without it: {title!}
+ * Text in square brackets is left out when a placeholder directly inside it
+ * has no value: [-S{season}]. Throws when the template does not parse.
+ */
+export function parseFilenameTemplate(template: string): TemplatePart[] {
+  const groups: TemplatePart[][] = [[]];
+  let index = 0;
+  while (index < template.length) {
+    const char = template[index];
+    const parts = groups[groups.length - 1];
+    if (char === '{') {
+      const end = template.indexOf('}', index);
+      const match = end < 0 ? null : /^([a-z0-9_|]+?)((?:\|'[^']*')?)(:compact)?(!)?$/.exec(template.substring(index + 1, end));
+      const fields = match?.[1].split('|');
+      if (!match || !fields || fields.some(field => !field)) {
+        throw new Error(`invalid placeholder at position ${index + 1}`);
+      }
+      parts.push({
+        kind: 'field',
+        fields,
+        fallback: match[2] ? match[2].slice(2, -1) : undefined,
+        compact: !!match[3],
+        required: !!match[4],
+      });
+      index = end + 1;
+      continue;
+    }
+    if (char === '[') {
+      const group: TemplatePart[] = [];
+      parts.push({ kind: 'group', parts: group });
+      groups.push(group);
+    } else if (char === ']') {
+      if (groups.length === 1) {
+        throw new Error(`unexpected ] at position ${index + 1}`);
+      }
+      groups.pop();
+    } else if (char === '}') {
+      throw new Error(`unexpected } at position ${index + 1}`);
+    } else {
+      const last = parts[parts.length - 1];
+      if (last?.kind === 'text') {
+        last.text += char;
+      } else {
+        parts.push({ kind: 'text', text: char });
+      }
+    }
+    index++;
+  }
+  if (groups.length > 1) {
+    throw new Error('missing ]');
+  }
+  return groups[0];
+}
+
+/**
+ * Names of the fields a filename template uses
+ */
+export function getTemplateFields(template: string): string[] {
+  const getFields = (parts: TemplatePart[]): string[] => parts.flatMap(part =>
+    part.kind === 'field' ? part.fields : part.kind === 'group' ? getFields(part.parts) : []
+  );
+  return [...new Set(getFields(parseFilenameTemplate(template)))];
+}
+
+export function findDocumentType(documentTypes: DocumentTypeDeclaration[], name: string): DocumentTypeDeclaration | undefined {
+  return documentTypes.find(documentType => documentType.name === name);
+}
+
+/**
+ * Fields shown as a single input on the record
+ */
+export function getDisplayFields(declaration?: DocumentTypeDeclaration): string[] {
+  return Object.entries(declaration?.fields || {})
+    .filter(([, field]) => field.type !== 'list')
+    .map(([name]) => name);
+}
+
+/**
+ * List fields with their columns, shown as a table on the record
+ */
+export function getListFields(declaration?: DocumentTypeDeclaration): Record<string, string[]> {
+  return Object.fromEntries(Object.entries(declaration?.fields || {})
+    .filter(([, field]) => field.type === 'list')
+    .map(([name, field]) => [name, Object.keys(field.items || {})]));
+}
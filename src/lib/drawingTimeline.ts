@@ -0,0 +1,85 @@
+import { DocumentType, DrawingData, FileInfo } from '@/types';
+import type { FamilyMember } from './settings';
+
+export interface DrawingEntry {
+  drawing_date: string;
+  school_year: string;
+  subject: string;
+  description: string;
+  age?: number;             // As written, or else from the birth date and the drawing date
+  fileId: string;
+  currentPath: string;
+  type: FileInfo['type'];
+}
+
+export interface ChildTimeline {
+  child_name: string;       // As configured when the name is a known family member
+  birthDate?: string;
+  drawings: DrawingEntry[]; // Oldest first, undated drawings last
+}
+
+const UNKNOWN_CHILD = 'Unknown';
+
+function getAge(birthDate: string, date: string): number | undefined {
+  if (!/^\d{8}$/.test(birthDate) || !/^\d{8}$/.test(date) || date < birthDate) {
+    return undefined;
+  }
+  const years = Number(date.substring(0, 4)) - Number(birthDate.substring(0, 4));
+  return date.substring(4) < birthDate.substring(4) ? years - 1 : years;
+}
+
+/**
+ * Sort key of a drawing: its date, or else the start of its school year
+ */
+function getSortKey(entry: DrawingEntry): string {
+  if (entry.drawing_date) {
+    return entry.drawing_date;
+  }
+  const schoolYear = /^(\d{4})/.exec(entry.school_year || '');
+  return schoolYear ? `${schoolYear[1]}0901` : '99999999';
+}
+
+/**
+ * All analyzed drawings per child, the configured family members first and
+ * in their configured order
+ */
+export function getDrawingTimelines(files: FileInfo[], family: FamilyMember[]): ChildTimeline[] {
+  const members = new Map(family.map(member => [member.name.toLowerCase(), member]));
+  const timelines = new Map<string, ChildTimeline>(
+    family.map(member => [member.name.toLowerCase(), { child_name: member.name, birthDate: member.birthDate, drawings: [] }])
+  );
+
+  for (const file of files) {
+    if (file.documentType !== DocumentType.DRAWING || file.status !== 'analyzed' || !file.data || file.childIds?.length) {
+      continue;
+    }
+    const data = file.data as DrawingData;
+    const childName = (data.child_name || '').trim() || UNKNOWN_CHILD;
+    const key = childName.toLowerCase();
+    const member = members.get(key);
+    const timeline = timelines.get(key) || { child_name: childName, drawings: [] };
+    timelines.set(key, timeline);
+
+    const writtenAge = Number(data.age);
+    timeline.drawings.push({
+      drawing_date: data.drawing_date || '',
+      school_year: data.school_year || '',
+      subject: data.subject || '',
+      description: data.description || '',
+      age: writtenAge > 0 ? writtenAge : member?.birthDate && data.drawing_date ? getAge(member.birthDate, data.drawing_date) : undefined,
+      fileId: file.id,
+      currentPath: file.currentPath,
+      type: file.type,
+    });
+  }
+
+  const result = [...timelines.values()].filter(timeline => timeline.drawings.length > 0);
+  result.forEach(timeline => timeline.drawings.sort((a, b) => getSortKey(a).localeCompare(getSortKey(b))));
+  return result.sort((a, b) => {
+    const aIndex = family.findIndex(member => member.name === a.child_name);
+    const bIndex = family.findIndex(member => member.name === b.child_name);
+    return (aIndex < 0 ? family.length : aIndex) - (bIndex < 0 ? family.length : bIndex) ||
+      Number(a.child_name === UNKNOWN_CHILD) - Number(b.child_name === UNKNOWN_CHILD) ||
+      a.child_name.localeCompare(b.child_name);
+  });
+}
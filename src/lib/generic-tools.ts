@@ -1,6 +1,10 @@
-import { FileInfo, type GenericDocumentData, type InvoiceData, type MovieCoverData } from '@/types';
+import { FileInfo } from '@/types';
+import { BUILT_IN_DOCUMENT_TYPES, type DocumentTypeDeclaration, findDocumentType, parseFilenameTemplate, type TemplatePart } from './documentTypes';
 
-export function generateFileName(record: FileInfo): string {
+const SEPARATORS = ['-', '_'];
+
+// Pass the declaration of a custom document type; the built-in types are looked up by the record's type
+export function generateFileName(record: FileInfo, declaration?: DocumentTypeDeclaration): string {
     try {
         if (!record.data) {
             return record.currentPath; // Return original path if no data
@@ -19,75 +23,84 @@ export function generateFileName(record: FileInfo): string {
             }
         };
 
-        let newFilename: string;
         const filename = record.currentPath.split('/').pop() || '';
         const ext = filename.split('.').pop() || '';
         const dirPath = record.currentPath.substring(0, record.currentPath.lastIndexOf('/'));
 
-        if("invoice_date" in record.data) {
-            const { invoice_date, company_name, description, invoice_amount, invoice_currency } = record.data as InvoiceData;
-            const cleanCompanyName = cleanField(company_name || '');
-            const cleanDescription = cleanField(description || '');
-            const cleanAmount = cleanField(invoice_amount || '');
-            
-            // Build filename parts and filter out empty ones
-            const parts = [
-                invoice_date || '',
-                cleanCompanyName,
-                cleanDescription,
-                (invoice_currency || 'EUR') + cleanAmount
-            ].filter(part => part && part.trim() !== '');
-            
-            // If no valid parts, return original path
-            if (parts.length === 0) {
-                return record.currentPath;
-            }
-            
-            newFilename = `${parts.join('-')}.${ext}`;
-        } else if("movie_title" in record.data) {
-            const { movie_title, season, disc_number, media_format, duration } = record.data as MovieCoverData;
-            const cleanTitle = cleanField(movie_title || '');
-            
-            // If no title, return original path
-            if (!cleanTitle) {
-                return record.currentPath;
+        const filenameTemplate = (declaration || findDocumentType(BUILT_IN_DOCUMENT_TYPES, record.documentType))?.filenameTemplate;
+        if (!filenameTemplate) {
+            // A type without a filename template keeps its name
+            return record.currentPath;
+        }
+
+        const values = record.data as unknown as Record<string, unknown>;
+        let hasValue = false;
+        let missesRequired = false;
+
+        const getValue = (part: Extract<TemplatePart, { kind: 'field' }>): string => {
+            for (const field of part.fields) {
+                // Models answer 0 for a season or page that does not apply
+                const value = values[field] === 0 ? '' : cleanField(String(values[field] ?? ''));
+                if (value) {
+                    hasValue = true;
+                    return part.compact ? value.replace(/_/g, '') : value;
+                }
             }
-            
-            const cleanSeason = season ? `S${season}` : '';
-            const cleanDisc = cleanField(disc_number || '');
-            const cleanFormat = cleanField(media_format || '');
-            const cleanDuration = cleanField(duration || '');
-            
-            // Build filename parts and filter out empty ones
-            const parts = [
-                'cover',
-                cleanTitle,
-                cleanSeason,
-                cleanDisc,
-                cleanFormat,
-                cleanDuration
-            ].filter(part => part && part.trim() !== '');
-            
-            newFilename = `${parts.join('-')}.${ext}`;
-        } else if("source" in record.data) {
-            const { document_date, document_category, source, description } = record.data as GenericDocumentData;
-            const genericParts = [
-                cleanField(document_date || ''),
-                cleanField(document_category || ''),
-                cleanField(source || ''),
-                cleanField(description || '')
-            ].filter(part => part && part.trim() !== '');
-            
-            // If no valid parts, return original path
-            if (genericParts.length === 0) {
-                return record.currentPath;
+            missesRequired = missesRequired || part.required;
+            return part.fallback ?? '';
+        };
+
+        // An empty placeholder takes one separator next to it along. Returns
+        // undefined for a group with an empty placeholder.
+        const render = (parts: TemplatePart[], isGroup: boolean): string | undefined => {
+            let text = '';
+            let endsWithSeparator = false;
+            let skipSeparator = false;
+            for (const part of parts) {
+                if (part.kind === 'text') {
+                    for (const char of part.text) {
+                        if (skipSeparator && SEPARATORS.includes(char)) {
+                            skipSeparator = false;
+                            continue;
+                        }
+                        skipSeparator = false;
+                        text += char;
+                        endsWithSeparator = SEPARATORS.includes(char);
+                    }
+                    continue;
+                }
+
+                const hadValue = hasValue;
+                const value = part.kind === 'field' ? getValue(part) : render(part.parts, true);
+                if (value === undefined) {
+                    hasValue = hadValue; // Left out group
+                    continue;
+                }
+                if (value) {
+                    text += value;
+                    endsWithSeparator = false;
+                    skipSeparator = false;
+                } else if (isGroup) {
+                    return undefined;
+                } else if (endsWithSeparator) {
+                    text = text.slice(0, -1);
+                    endsWithSeparator = false;
+                } else {
+                    skipSeparator = true;
+                }
             }
-            
-            newFilename = `${genericParts.join('_')}.${ext}`;
-        } else {
+            return text;
+        };
+
+        const name = render(parseFilenameTemplate(filenameTemplate), false) || '';
+
+        // If a required field or every field is empty, return original path
+        if (missesRequired || !hasValue) {
             return record.currentPath;
         }
 
+        const newFilename = `${name.replace(/^[-_]+|[-_]+$/g, '')}.${ext}`;
+
         // Final validation: ensure the filename is not just an extension
         const finalFilename = newFilename.trim();
         if (!finalFilename || finalFilename === `.${ext}` || finalFilename.startsWith('.')) {
@@ -111,6 +111,66 @@ export class ImageService {
     return results;
   }
 
+  /**
+   * Downscale an image to at most maxPixels (width x height), keeping its aspect ratio
+   * @param imagePath Path to the source image
+   * @param maxPixels Pixel budget per image
+   * @returns Path to the downscaled image (or original if it fits the budget)
+   */
+  async limitPixels(imagePath: string, maxPixels: number): Promise<string> {
+    try {
+      const metadata = await sharp(imagePath).metadata();
+      const width = metadata.width || 0;
+      const height = metadata.height || 0;
+      if (width * height <= maxPixels) {
+        return imagePath;
+      }
+
+      const scaleFactor = Math.sqrt(maxPixels / (width * height));
+      const newWidth = Math.floor(width * scaleFactor);
+      const newHeight = Math.floor(height * scaleFactor);
+      this.logger.debug(`Downscaling ${imagePath} from ${width}x${height} to ${newWidth}x${newHeight} (budget ${maxPixels} pixels)`);
+
+      await fs.mkdir(this.tempDir, { recursive: true });
+      const ext = path.extname(imagePath);
+      const basename = path.basename(imagePath, ext);
+      const tempPath = path.join(this.tempDir, `${basename}_budget_${Date.now()}${ext}`);
+
+      await sharp(imagePath)
+        .resize(newWidth, newHeight, { fit: 'inside' })
+        .toFile(tempPath);
+      return tempPath;
+    } catch (error) {
+      this.logger.error(`Error downscaling image ${imagePath}: ${error}`);
+      // Return original path if downscaling fails
+      return imagePath;
+    }
+  }
+
+  /**
+   * Create a small JPEG copy of an image, e.g. for a cheap classification call
+   * @param imagePath Path to the source image
+   * @param maxDimension Maximum width and height in pixels
+   * @returns Path to the thumbnail in the temp directory
+   */
+  async createThumbnail(imagePath: string, maxDimension: number = 768): Promise<string> {
+    await fs.mkdir(this.tempDir, { recursive: true });
+
+    const basename = path.basename(imagePath, path.extname(imagePath));
+    const tempPath = path.join(this.tempDir, `${basename}_thumb_${Date.now()}.jpg`);
+
+    await sharp(imagePath)
+      .resize(maxDimension, maxDimension, {
+        fit: 'inside',
+        withoutEnlargement: true
+      })
+      .jpeg({ quality: 80 })
+      .toFile(tempPath);
+
+    this.logger.debug(`Thumbnail of ${imagePath} saved to ${tempPath}`);
+    return tempPath;
+  }
+
   /**
    * Cleanup temporary rescaled images
    * @param imagePaths Array of image paths to clean up
@@ -0,0 +1,120 @@
+import { DocumentType, FileInfo, InsuranceData } from '@/types';
+
+export interface InsurancePolicy {
+  insurer: string;
+  policy_number: string;
+  coverage_type: string;
+  premium_amount: string;
+  premium_frequency?: InsuranceData['premium_frequency'];
+  currency: string;
+  yearly_premium?: number;  // Premium converted to a year, when amount and frequency are known
+  start_date: string;
+  renewal_date: string;     // As on the latest document
+  next_renewal?: string;    // First renewal date from today, YYYYMMDD
+  end_date: string;
+  fileId: string;           // Latest document of the policy
+  currentPath: string;
+  documentCount: number;
+}
+
+export interface InsuranceOverview {
+  activePolicies: InsurancePolicy[];
+  upcomingRenewals: InsurancePolicy[]; // Active policies renewing within the given number of days
+  yearlyPremium: number;
+}
+
+const PAYMENTS_PER_YEAR: Record<string, number> = {
+  monthly: 12,
+  quarterly: 4,
+  'half-yearly': 2,
+  yearly: 1,
+};
+
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * Policies renew every year on the same day: the first anniversary of date
+ * on or after today
+ */
+function getNextRenewal(date: string, today: string): string {
+  if (date >= today) {
+    return date;
+  }
+  const monthDay = date.substring(4);
+  let year = Number(today.substring(0, 4));
+  for (;;) {
+    const renewal = `${year}${monthDay === '0229' && !isLeapYear(year) ? '0228' : monthDay}`;
+    if (renewal >= today) {
+      return renewal;
+    }
+    year++;
+  }
+}
+
+function toPolicy(file: FileInfo, documentCount: number, today: string): InsurancePolicy {
+  const data = file.data as InsuranceData;
+  const paymentsPerYear = data.premium_frequency ? PAYMENTS_PER_YEAR[data.premium_frequency] : undefined;
+  const premium = Number(data.premium_amount);
+  const renewalBase = data.renewal_date || data.start_date;
+  return {
+    insurer: data.insurer,
+    policy_number: data.policy_number,
+    coverage_type: data.coverage_type,
+    premium_amount: data.premium_amount,
+    premium_frequency: data.premium_frequency,
+    currency: data.currency || 'EUR',
+    yearly_premium: data.premium_amount && !isNaN(premium) && paymentsPerYear ? Math.round(premium * paymentsPerYear * 100) / 100 : undefined,
+    start_date: data.start_date,
+    renewal_date: data.renewal_date,
+    next_renewal: renewalBase ? getNextRenewal(renewalBase, today) : undefined,
+    end_date: data.end_date,
+    fileId: file.id,
+    currentPath: file.currentPath,
+    documentCount,
+  };
+}
+
+/**
+ * The policies that are still running, taken from the latest analyzed
+ * document per insurer and policy number, and the ones renewing soon
+ */
+export function getInsuranceOverview(files: FileInfo[], renewalDays: number, now = new Date()): InsuranceOverview {
+  const today = toDateString(now);
+  const renewalLimit = toDateString(new Date(now.getFullYear(), now.getMonth(), now.getDate() + renewalDays));
+
+  const documents = new Map<string, FileInfo[]>();
+  for (const file of files) {
+    if (file.documentType !== DocumentType.INSURANCE || file.status !== 'analyzed' || !file.data || file.childIds?.length) {
+      continue;
+    }
+    const data = file.data as InsuranceData;
+    if (!data.policy_number) {
+      continue;
+    }
+    // Group regardless of case, spaces and punctuation in the policy number
+    const key = [data.insurer, data.policy_number].map(part => (part || '').toLowerCase().replace(/[^a-z0-9]/g, '')).join('|');
+    documents.set(key, [...(documents.get(key) || []), file]);
+  }
+
+  const activePolicies = [...documents.values()]
+    .map(policyFiles => {
+      const latest = policyFiles.reduce((a, b) => ((b.data as InsuranceData).document_date || '') > ((a.data as InsuranceData).document_date || '') ? b : a);
+      return toPolicy(latest, policyFiles.length, today);
+    })
+    .filter(policy => !policy.end_date || policy.end_date >= today)
+    .sort((a, b) => a.insurer.localeCompare(b.insurer) || a.coverage_type.localeCompare(b.coverage_type));
+
+  return {
+    activePolicies,
+    upcomingRenewals: activePolicies
+      .filter(policy => policy.next_renewal && policy.next_renewal <= renewalLimit && (!policy.end_date || policy.end_date > policy.next_renewal))
+      .sort((a, b) => (a.next_renewal || '').localeCompare(b.next_renewal || '')),
+    yearlyPremium: Math.round(activePolicies.reduce((total, policy) => total + (policy.yearly_premium || 0), 0) * 100) / 100,
+  };
+}
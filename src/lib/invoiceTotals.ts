@@ -0,0 +1,104 @@
+import { InvoiceData, InvoiceLineItem, VatBreakdownEntry } from '@/types';
+
+export const DUTCH_VAT_RATES = ['21', '9', '0'];
+
+// Accepted rounding difference per amount that was added up
+const CENT = 0.01;
+
+function toNumber(value?: string): number | undefined {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+function isClose(a: number, b: number, count = 1): boolean {
+  return Math.abs(a - b) <= CENT * Math.max(2, count) + 1e-9;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function format(amount: number): string {
+  return amount.toFixed(2);
+}
+
+export function getLineTotal(line: InvoiceLineItem): number | undefined {
+  const quantity = toNumber(line.quantity) ?? 1;
+  const unitPrice = toNumber(line.unit_price);
+  return unitPrice === undefined ? undefined : quantity * unitPrice;
+}
+
+/**
+ * Check that the line items and the VAT breakdown of an invoice add up to
+ * its totals. Returns a message per problem, none when everything adds up or
+ * there is nothing to check.
+ */
+export function checkInvoiceTotals(data: InvoiceData): string[] {
+  const problems: string[] = [];
+  const net = toNumber(data.invoice_amount);
+  const vat = toNumber(data.vat_amount);
+  const gross = toNumber(data.total_amount);
+
+  if (net !== undefined && vat !== undefined && gross !== undefined && !isClose(net + vat, gross)) {
+    problems.push(`net ${format(net)} plus VAT ${format(vat)} is not the total ${format(gross)}`);
+  }
+
+  const unknownRates = new Set<string>();
+  const breakdown = data.vat_breakdown || [];
+  for (const entry of breakdown) {
+    const rate = toNumber(entry.rate);
+    const entryNet = toNumber(entry.net);
+    const entryVat = toNumber(entry.vat);
+    const entryGross = toNumber(entry.gross);
+    if (rate === undefined || !DUTCH_VAT_RATES.includes(String(rate))) {
+      unknownRates.add(entry.rate);
+      continue;
+    }
+    if (entryNet !== undefined && entryVat !== undefined && !isClose(entryNet * rate / 100, entryVat)) {
+      problems.push(`VAT ${format(entryVat)} at ${rate}% does not match net ${format(entryNet)}`);
+    }
+    if (entryNet !== undefined && entryVat !== undefined && entryGross !== undefined && !isClose(entryNet + entryVat, entryGross)) {
+      problems.push(`net plus VAT at ${rate}% is not ${format(entryGross)}`);
+    }
+  }
+
+  // Compare the sums of the breakdown with the totals, when every entry has the amount
+  const columns: [keyof VatBreakdownEntry, string, number | undefined][] = [
+    ['net', 'net amounts', net],
+    ['vat', 'VAT amounts', vat],
+    ['gross', 'gross amounts', gross],
+  ];
+  for (const [column, label, total] of columns) {
+    const amounts = breakdown.map(entry => toNumber(entry[column]));
+    if (total === undefined || amounts.length === 0 || amounts.some(amount => amount === undefined)) {
+      continue;
+    }
+    const breakdownTotal = sum(amounts as number[]);
+    if (!isClose(breakdownTotal, total, amounts.length)) {
+      problems.push(`${label} per VAT rate add up to ${format(breakdownTotal)}, not ${format(total)}`);
+    }
+  }
+
+  const lines = data.line_items || [];
+  lines
+    .filter(line => toNumber(line.vat_rate) !== undefined && !DUTCH_VAT_RATES.includes(String(toNumber(line.vat_rate))))
+    .forEach(line => unknownRates.add(line.vat_rate));
+
+  // Receipts print prices with VAT, invoices usually without: either total will do
+  const lineTotals = lines.map(getLineTotal);
+  if (lineTotals.length > 0 && lineTotals.every(total => total !== undefined) && (net !== undefined || gross !== undefined)) {
+    const linesTotal = sum(lineTotals as number[]);
+    const matches = [net, gross].some(total => total !== undefined && isClose(linesTotal, total, lines.length));
+    if (!matches) {
+      problems.push(`line items add up to ${format(linesTotal)}, not the total ${format((gross ?? net) as number)}`);
+    }
+  }
+
+  if (unknownRates.size > 0) {
+    problems.unshift(`unknown VAT rate ${[...unknownRates].map(rate => `${rate}%`).join(', ')}`);
+  }
+  return problems;
+}
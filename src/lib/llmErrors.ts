@@ -0,0 +1,103 @@
+import { APIError } from 'openai';
+import { DocumentValidationError } from './documentSchemas';
+
+/**
+ * - transient: rate limits, timeouts, server and network errors; retrying later helps
+ * - quota: account level problems (credits exhausted, invalid key); the file itself is fine
+ * - content_policy: the provider refused the content
+ * - malformed: the request or the model output cannot be used
+ */
+export type LlmErrorKind = 'transient' | 'quota' | 'content_policy' | 'malformed';
+
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+  status?: number;
+  retryAfterMs?: number;    // From the Retry-After header, when the provider sent one
+
+  constructor(kind: LlmErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const QUOTA_CODES = ['insufficient_quota', 'billing_hard_limit_reached', 'billing_not_active'];
+const CONTENT_POLICY_CODES = ['content_policy_violation', 'content_filter'];
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+/**
+ * Read retry-after-ms (OpenAI) or Retry-After (seconds or HTTP date) in milliseconds
+ */
+export function parseRetryAfter(headers?: Headers | null): number | undefined {
+  const retryAfterMs = headers?.get('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers?.get('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  if (!isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify an HTTP error response of an LLM endpoint
+ */
+export function classifyHttpError(status: number, message: string, code?: string | null, retryAfterMs?: number): LlmError {
+  if (code && QUOTA_CODES.includes(code)) {
+    return new LlmError('quota', message, status);
+  }
+  if (code && CONTENT_POLICY_CODES.includes(code)) {
+    return new LlmError('content_policy', message, status);
+  }
+  if (status === 429 || status === 408 || status === 409 || status >= 500) {
+    return new LlmError('transient', message, status, retryAfterMs);
+  }
+  if (status === 401 || status === 402 || status === 403) {
+    return new LlmError('quota', message, status);
+  }
+  return new LlmError('malformed', message, status);
+}
+
+/**
+ * Convert anything thrown while calling a provider into an LlmError
+ */
+export function toLlmError(error: unknown): LlmError {
+  if (error instanceof LlmError) {
+    return error;
+  }
+  if (error instanceof DocumentValidationError) {
+    return new LlmError('malformed', error.message);
+  }
+  if (error instanceof APIError) {
+    // Connection errors and timeouts have no status
+    if (error.status === undefined) {
+      return new LlmError('transient', error.message);
+    }
+    return classifyHttpError(error.status, error.message, error.code, parseRetryAfter(error.headers));
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const cause = error instanceof Error ? (error.cause as NodeJS.ErrnoException | undefined) : undefined;
+  const code = (error as NodeJS.ErrnoException)?.code || cause?.code;
+  // fetch() rejects with a TypeError on network failures
+  if ((code && TRANSIENT_NETWORK_CODES.includes(code)) || (error instanceof TypeError && message === 'fetch failed')) {
+    return new LlmError('transient', message);
+  }
+  return new LlmError('malformed', message);
+}
+
+/**
+ * Transient and quota errors are not the file's fault: the file can be
+ * analyzed again later, so it should not be marked bad
+ */
+export function isRetryableLater(error: unknown): boolean {
+  return error instanceof LlmError && (error.kind === 'transient' || error.kind === 'quota');
+}
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import sharp from 'sharp';
+import type { FileInfo, GenericDocumentData } from '@/types';
+import type { LlmFixture } from './llmFixtures';
+import type { FixtureSettings } from './settings';
+
+const PROMPTS_DIRECTORY = path.join(process.cwd(), 'prompts');
+
+let workDirectory: string;
+let fixturesDirectory: string;
+const originalDirectory = process.cwd();
+
+function createFileInfo(filePath: string): FileInfo {
+  return {
+    id: path.basename(filePath),
+    originalPath: filePath,
+    currentPath: filePath,
+    timestamp: new Date().toISOString(),
+    status: 'new',
+    type: 'image',
+    documentType: 'generic',
+  };
+}
+
+async function createScan(name: string, color: string): Promise<string> {
+  const filePath = path.join(workDirectory, name);
+  await sharp({ create: { width: 400, height: 600, channels: 3, background: color } }).png().toFile(filePath);
+  return filePath;
+}
+
+/**
+ * Analyze a file with the mock provider in the given fixtures mode. The
+ * modules are loaded again, so the settings file is read again.
+ */
+async function analyze(file: FileInfo, mode: FixtureSettings['mode']) {
+  const settingsPath = path.join(workDirectory, `settings.${mode}.json`);
+  await fs.writeFile(settingsPath, JSON.stringify({
+    llm: {
+      defaultProvider: 'mock',
+      providers: { mock: { type: 'mock' } },
+      fixtures: { mode, directory: fixturesDirectory },
+    },
+    prompts: { directory: PROMPTS_DIRECTORY },
+  }));
+  vi.stubEnv('SETTINGS_FILE', settingsPath);
+
+  vi.resetModules();
+  const { Logger } = await import('./logger');
+  const { LlmService } = await import('./llmService');
+  const { PdfService } = await import('./pdfService');
+  const { ImageService } = await import('./imageService');
+  const { OcrService } = await import('./ocrService');
+  const { RedactionService } = await import('./redactionService');
+  const { processFile } = await import('./server-tools');
+
+  const logger = new Logger(false);
+  const ocrService = new OcrService(logger);
+  return processFile(file, new PdfService(logger), new LlmService(logger), new ImageService(logger), ocrService, new RedactionService(logger, ocrService));
+}
+
+describe('replaying recorded LLM fixtures', () => {
+  beforeAll(async () => {
+    workDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'bonnetjes-fixtures-'));
+    fixturesDirectory = path.join(workDirectory, 'fixtures');
+    // The usage ledger and temporary images are written to the working directory
+    process.chdir(workDirectory);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalDirectory);
+    vi.unstubAllEnvs();
+    await fs.rm(workDirectory, { recursive: true, force: true });
+  });
+
+  it('analyzes a file from its recorded responses', async () => {
+    const file = createFileInfo(await createScan('scan_0001.png', '#ffffff'));
+    const recorded = await analyze(file, 'record');
+    expect((recorded?.data as GenericDocumentData).description).toBe('Mock analysis');
+
+    // One recording for the classification and one for the extraction
+    const fixtureFiles = await fs.readdir(fixturesDirectory);
+    expect(fixtureFiles).toHaveLength(2);
+
+    // Change the recorded answers, so the replay shows where its answer came from
+    for (const fixtureFile of fixtureFiles) {
+      const fixturePath = path.join(fixturesDirectory, fixtureFile);
+      const fixture: LlmFixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+      fixture.response.content = fixture.response.content.replace('Mock analysis', 'Replayed analysis');
+      await fs.writeFile(fixturePath, JSON.stringify(fixture));
+    }
+
+    const replayed = await analyze(file, 'replay');
+    expect(replayed?.documentType).toBe('generic');
+    expect(replayed?.classification?.documentType).toBe('generic');
+    expect((replayed?.data as GenericDocumentData).description).toBe('Replayed analysis');
+    expect(replayed?.analysis?.provider).toBe('mock');
+  });
+
+  it('fails a request that was not recorded', async () => {
+    const file = createFileInfo(await createScan('scan_0002.png', '#000000'));
+    await expect(analyze(file, 'replay')).rejects.toThrow(/No recorded response/);
+  });
+});
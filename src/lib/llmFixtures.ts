@@ -0,0 +1,131 @@
+import { Logger } from './logger';
+import { promises as fs } from 'node:fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { LlmProvider, LlmRequest, LlmResponse } from './llmProviders';
+import { LlmError } from './llmErrors';
+import { FixtureSettings, LlmProviderSettings } from './settings';
+
+export interface LlmFixture {
+  fingerprint: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  // The request without the images, to see what a fixture belongs to
+  request: {
+    prompt: string;
+    imageHashes: string[];
+    maxTokens?: number;
+    detail?: string;
+  };
+  response: LlmResponse;
+}
+
+function sha256(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Key of a fixture: the provider name and everything sent to it. Replaying
+ * needs the same settings, prompts and page images as the recording.
+ */
+export function getRequestFingerprint(provider: string, request: LlmRequest): string {
+  return sha256(JSON.stringify({
+    provider,
+    prompt: request.prompt,
+    images: request.images.map(sha256),
+    maxTokens: request.maxTokens,
+    detail: request.detail,
+  }));
+}
+
+export function getFixturesDirectory(settings: FixtureSettings): string {
+  return settings.directory || path.join(process.cwd(), 'fixtures', 'llm');
+}
+
+function getFixturePath(directory: string, fingerprint: string): string {
+  return path.join(directory, `${fingerprint}.json`);
+}
+
+/**
+ * Passes requests on to the real provider and stores every response as a
+ * fixture for ReplayProvider
+ */
+export class RecordingProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  private provider: LlmProvider;
+  private directory: string;
+  private logger: Logger;
+
+  constructor(provider: LlmProvider, directory: string, logger: Logger) {
+    this.name = provider.name;
+    this.model = provider.model;
+    this.provider = provider;
+    this.directory = directory;
+    this.logger = logger;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.provider.complete(request);
+
+    const fingerprint = getRequestFingerprint(this.name, request);
+    const fixture: LlmFixture = {
+      fingerprint,
+      provider: this.name,
+      model: this.model,
+      recordedAt: new Date().toISOString(),
+      request: {
+        prompt: request.prompt,
+        imageHashes: request.images.map(sha256),
+        maxTokens: request.maxTokens,
+        detail: request.detail,
+      },
+      response,
+    };
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(getFixturePath(this.directory, fingerprint), JSON.stringify(fixture, null, 2));
+      this.logger.debug(`Recorded LLM fixture ${fingerprint}`);
+    } catch (error) {
+      // The recording is a by-product, the analysis goes on
+      this.logger.error(`Error recording LLM fixture: ${error}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Serves recorded responses without network access. The real provider is
+ * never created, so no API key is needed. A request that was not recorded
+ * fails as malformed.
+ */
+export class ReplayProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  private directory: string;
+  private logger: Logger;
+
+  constructor(name: string, settings: LlmProviderSettings, directory: string, logger: Logger) {
+    this.name = name;
+    this.model = settings.model || 'replay';
+    this.directory = directory;
+    this.logger = logger;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const fingerprint = getRequestFingerprint(this.name, request);
+    let fixture: LlmFixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(getFixturePath(this.directory, fingerprint), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new LlmError('malformed', `No recorded response for request ${fingerprint} to ${this.name} (prompt starts with "${request.prompt.slice(0, 60)}")`);
+      }
+      throw error;
+    }
+
+    this.logger.debug(`Replaying LLM fixture ${fingerprint}`);
+    return fixture.response;
+  }
+}
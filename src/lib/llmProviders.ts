@@ -0,0 +1,262 @@
+import { Logger } from './logger';
+import { promises as fs } from 'node:fs';
+import { env } from 'node:process';
+import { OpenAI } from 'openai';
+import { FixtureSettings, ImageDetail, LlmProviderSettings } from './settings';
+import { getFixturesDirectory, RecordingProvider, ReplayProvider } from './llmFixtures';
+import { classifyHttpError, LlmError, parseRetryAfter } from './llmErrors';
+
+export interface LlmRequest {
+  prompt: string;
+  images: string[]; // base64 encoded
+  maxTokens?: number;
+  detail?: ImageDetail; // Ignored by providers without a detail option
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+const DEFAULT_MAX_TOKENS = 1000;
+
+function getApiKey(settings: LlmProviderSettings): string {
+  return settings.apiKeyEnv ? env[settings.apiKeyEnv] || '' : '';
+}
+
+export class OpenAiProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  protected logger: Logger;
+  protected openai: OpenAI;
+
+  constructor(name: string, settings: LlmProviderSettings, logger: Logger) {
+    this.name = name;
+    this.logger = logger;
+    this.model = settings.model || 'gpt-4-vision-preview';
+
+    const apiKey = getApiKey(settings);
+    if (!apiKey) {
+      throw new Error(`API key environment variable ${settings.apiKeyEnv || '(apiKeyEnv not set)'} is required for provider ${name}`);
+    }
+    this.openai = this.createClient(apiKey, settings);
+  }
+
+  protected createClient(apiKey: string, settings: LlmProviderSettings): OpenAI {
+    return new OpenAI({
+      apiKey,
+      baseURL: settings.baseUrl || undefined,
+      // Retries are handled by LlmService, which knows about the rate limits
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: request.prompt },
+            ...request.images.map(base64Image => ({
+              type: 'image_url' as const,
+              image_url: {
+                url: `data:image/png;base64,${base64Image}`,
+                detail: request.detail
+              }
+            }))
+          ]
+        }
+      ],
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS
+    });
+
+    if (response.choices[0]?.finish_reason === 'content_filter') {
+      throw new LlmError('content_policy', 'Response blocked by content filter');
+    }
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new LlmError('malformed', 'No content in API response');
+    }
+
+    return {
+      content,
+      model: response.model || this.model,
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+      } : undefined,
+    };
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions protocol (LiteLLM, vLLM,
+ * LM Studio, Ollama's /v1 endpoint, ...)
+ */
+export class OpenAiCompatibleProvider extends OpenAiProvider {
+  protected createClient(apiKey: string, settings: LlmProviderSettings): OpenAI {
+    if (!settings.baseUrl) {
+      throw new Error(`baseUrl is required for OpenAI-compatible provider ${this.name}`);
+    }
+
+    return new OpenAI({
+      baseURL: settings.baseUrl,
+      apiKey,
+      maxRetries: 0,
+      fetch: async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+        this.logger.debug(`Making request to external endpoint: ${input}`);
+        const response = await fetch(input, init);
+        this.logger.debug(`Received response from external endpoint: ${response.status}`);
+        return response;
+      },
+    });
+  }
+}
+
+/**
+ * Ollama's native /api/chat endpoint, which takes images as a separate
+ * base64 array instead of data URLs
+ */
+export class OllamaProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  private logger: Logger;
+  private baseUrl: string;
+
+  constructor(name: string, settings: LlmProviderSettings, logger: Logger) {
+    this.name = name;
+    this.logger = logger;
+    this.model = settings.model || 'gemma3:12b';
+    this.baseUrl = (settings.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.logger.debug(`Making request to Ollama: ${this.baseUrl}/api/chat (${this.model})`);
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        stream: false,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt,
+            images: request.images,
+          }
+        ],
+        options: {
+          num_predict: request.maxTokens || DEFAULT_MAX_TOKENS,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw classifyHttpError(response.status, `Ollama request failed: ${response.status} ${await response.text()}`, null, parseRetryAfter(response.headers));
+    }
+
+    const data = await response.json() as {
+      model?: string;
+      message?: { content?: string };
+      prompt_eval_count?: number;
+      eval_count?: number;
+    };
+    const content = data.message?.content;
+    if (!content) {
+      throw new LlmError('malformed', 'No content in Ollama response');
+    }
+
+    return {
+      content,
+      model: data.model || this.model,
+      usage: {
+        promptTokens: data.prompt_eval_count || 0,
+        completionTokens: data.eval_count || 0,
+      },
+    };
+  }
+}
+
+const MOCK_RESPONSE = JSON.stringify({
+  document_type: 'generic',
+  extraction_status: 'success',
+  confidence: 'high',
+  fields: {
+    document_date: '20240101',
+    document_category: 'mock',
+    description: 'Mock analysis',
+    source: 'mock provider',
+  },
+});
+
+/**
+ * In-process provider for running the analyze pipeline offline. Returns the
+ * contents of responseFile, or a fixed generic document.
+ */
+export class MockProvider implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  private logger: Logger;
+  private responseFile?: string;
+
+  constructor(name: string, settings: LlmProviderSettings, logger: Logger) {
+    this.name = name;
+    this.logger = logger;
+    this.model = settings.model || 'mock';
+    this.responseFile = settings.responseFile;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.logger.debug(`Mock provider ${this.name} received prompt of ${request.prompt.length} chars and ${request.images.length} images`);
+    const content = this.responseFile
+      ? await fs.readFile(this.responseFile, 'utf-8')
+      : MOCK_RESPONSE;
+
+    return {
+      content,
+      model: this.model,
+      usage: { promptTokens: 0, completionTokens: 0 },
+    };
+  }
+}
+
+/**
+ * Create the provider for the settings, wrapped for recording or replaced by
+ * a replay when fixtures are configured
+ */
+export function createLlmProvider(name: string, settings: LlmProviderSettings, logger: Logger, fixtures?: FixtureSettings): LlmProvider {
+  if (fixtures?.mode === 'replay') {
+    return new ReplayProvider(name, settings, getFixturesDirectory(fixtures), logger);
+  }
+  const provider = createProvider(name, settings, logger);
+  return fixtures?.mode === 'record' ? new RecordingProvider(provider, getFixturesDirectory(fixtures), logger) : provider;
+}
+
+function createProvider(name: string, settings: LlmProviderSettings, logger: Logger): LlmProvider {
+  switch (settings.type) {
+    case 'openai':
+      return new OpenAiProvider(name, settings, logger);
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider(name, settings, logger);
+    case 'ollama':
+      return new OllamaProvider(name, settings, logger);
+    case 'mock':
+      return new MockProvider(name, settings, logger);
+    default:
+      throw new Error(`Unknown LLM provider type for ${name}: ${(settings as LlmProviderSettings).type}`);
+  }
+}
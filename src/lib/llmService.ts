@@ -1,326 +1,369 @@
 import { Logger } from './logger';
 import { promises as fs } from 'node:fs';
 import { env } from 'node:process';
-import { OpenAI } from 'openai';
 import path from 'path';
-import { DocumentData, DocumentType } from '@/types';
-import { fetch } from 'undici';
+import { DocumentClassification, DocumentData, DocumentType, DocumentTypeName, InvoiceData, PageRange, PageText } from '@/types';
+import { createLlmProvider, LlmProvider, LlmUsage } from './llmProviders';
+import { DocumentValidationError, FieldError, getMissingRequiredFields, validateDocumentResult } from './documentSchemas';
+import { toLlmError } from './llmErrors';
+import { getRateLimiter } from './rateLimiter';
+import { CorrectionSettings, getDocumentTypeDeclaration, getWorkspaceForPath, ImageDetail, LlmSettings, loadSettings } from './settings';
+import { UsageLedgerService, UsagePurpose } from './usageLedgerService';
+import { getKeyMode, KeyMode } from './privacy';
+import { PromptService } from './promptService';
+import { CorrectionService, formatCorrection } from './correctionService';
+import { checkInvoiceTotals } from './invoiceTotals';
+
+export interface ExtractedDocument {
+  documentType: DocumentTypeName;
+  data: DocumentData;
+  pageRange?: PageRange;    // Only set when the model found more than one document
+}
+
+export interface ExtractionOptions {
+  documentType?: DocumentTypeName;
+  supplier?: string;        // Used to pick learned corrections
+  providerName?: string;    // Overrides the provider selection, e.g. for an escalation
+  detail?: ImageDetail;     // Image detail for the vision API, see the page policy
+  pageTexts?: PageText[];   // Text of the analyzed pages, e.g. the PDF text layer
+  pageCount?: number;       // Pages analyzed, for the usage ledger; defaults to the number of images
+}
+
+export interface ExtractionResult {
+  provider: string;
+  model: string;
+  documents: ExtractedDocument[];
+}
+
+export interface AnalysisAttempt extends ExtractionResult {
+  escalationReasons?: string[];  // Escalation rules this attempt matched
+  timestamp: string;
+}
+
+const CONFIDENCE_LEVELS = ['low', 'medium', 'high'];
+// Leaves room for the line items of a long receipt
+const MAX_RESPONSE_TOKENS = 2000;
+// Rough cost of an image for the token budget; the real usage is known after the call
+const TOKENS_PER_IMAGE = 1000;
+const TOKENS_PER_LOW_DETAIL_IMAGE = 85;
+
+function estimateRequestTokens(prompt: string, imageCount: number, detail?: ImageDetail): number {
+  const imageTokens = detail === 'low' ? TOKENS_PER_LOW_DETAIL_IMAGE : TOKENS_PER_IMAGE;
+  return Math.ceil(prompt.length / 4) + imageCount * imageTokens + MAX_RESPONSE_TOKENS;
+}
 
 export class LlmService {
   private logger: Logger;
-  private apiKey: string;
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAY = 1000; // 1 second
-  private openai: OpenAI;
-  private modelName: string;
+  private usageLedger: UsageLedgerService;
+  private promptService: PromptService;
+  private correctionService: CorrectionService;
+  private readonly MAX_ATTEMPTS = 5;
+  private readonly RETRY_DELAY = 1000; // 1 second, doubled on every retry
+  private readonly MAX_RETRY_DELAY = 60_000;
+  private settings: LlmSettings;
+  private correctionSettings: CorrectionSettings;
+  private providers: Map<string, LlmProvider> = new Map();
 
   constructor(logger: Logger) {
     this.logger = logger;
-    this.apiKey = env.OPENAI_API_KEY || '';
-    const useExternal = env.USEEXTERNAL === 'true';
-    const externalUrl = env.EXTERNALURL || '';
-    const externalKey = env.EXTERNALKEY || '';
-    
-    if (useExternal) {
-      console.log('Using external LLM API');
-      this.modelName = env.EXTERNAL_MODEL_NAME || 'ollama/gemma3:12b';
-
-      if (!externalUrl || !externalKey) {
-        throw new Error('EXTERNALURL and EXTERNALKEY environment variables are required when USEEXTERNAL is true');
+    this.usageLedger = new UsageLedgerService(logger);
+    this.promptService = new PromptService(logger);
+    this.correctionService = new CorrectionService(logger);
+    this.settings = loadSettings().llm;
+    this.correctionSettings = loadSettings().corrections;
+
+    // Create the default provider up front so configuration errors surface at startup
+    const defaultProvider = this.getProviderByName(this.settings.defaultProvider);
+    console.log(`Using LLM provider ${defaultProvider.name} (${defaultProvider.model})${this.settings.fixtures ? `, ${this.settings.fixtures.mode} mode` : ''}`);
+  }
+
+  private getProviderByName(name: string): LlmProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      const providerSettings = this.settings.providers[name];
+      if (!providerSettings) {
+        throw new Error(`LLM provider "${name}" is not configured`);
       }
-      this.apiKey = externalKey;
-      this.openai = new OpenAI({
-        baseURL: externalUrl,
-        apiKey: this.apiKey,
-        fetch: (async (input: RequestInfo, init?: RequestInit): Promise<Response> => {
-          this.logger.debug(`Making request to external endpoint: ${input}`);
-          const response = await fetch(input, init);
-          this.logger.debug(`Received response from external endpoint: ${response.status}`);
-          return response;
-        }) as typeof fetch,
-      });
-    } else {
-      if (!this.apiKey) {
-        throw new Error('OPENAI_API_KEY environment variable is required when USEEXTERNAL is false');
+      provider = createLlmProvider(name, providerSettings, this.logger, this.settings.fixtures);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Select the provider for a file: a document type mapping wins over a
+   * workspace mapping, which wins over the default provider
+   */
+  getProvider(filePath: string, documentType?: DocumentTypeName): LlmProvider {
+    const workspaces = this.settings.workspaces || {};
+    const workspace = getWorkspaceForPath(filePath, Object.keys(workspaces));
+    const name = (documentType && this.settings.documentTypes?.[documentType])
+      || (workspace && workspaces[workspace])
+      || this.settings.defaultProvider;
+    return this.getProviderByName(name);
+  }
+
+  /**
+   * The stronger provider used for a second attempt, if escalation is configured
+   */
+  getEscalationProvider(): LlmProvider | undefined {
+    const escalation = this.settings.escalation;
+    return escalation?.provider ? this.getProviderByName(escalation.provider) : undefined;
+  }
+
+  /**
+   * Check extracted documents against the escalation rules. Returns the rules
+   * that matched, an empty list when the result is good enough.
+   */
+  getEscalationReasons(documents: ExtractedDocument[]): string[] {
+    const escalation = this.settings.escalation;
+    if (!escalation) {
+      return [];
+    }
+
+    const reasons = new Set<string>();
+    for (const { documentType, data } of documents) {
+      if (escalation.confidence?.includes(data.confidence)) {
+        reasons.add(`confidence ${data.confidence}`);
+      }
+      if (escalation.extractionStatus?.includes(data.extraction_status)) {
+        reasons.add(`extraction_status ${data.extraction_status}`);
+      }
+      if (escalation.missingRequiredFields) {
+        getMissingRequiredFields(documentType, data)?.forEach(field => reasons.add(`missing ${field}`));
+      }
+      if (escalation.totalsMismatch && documentType === DocumentType.INVOICE) {
+        checkInvoiceTotals(data as InvoiceData).forEach(problem => reasons.add(`totals: ${problem}`));
       }
-      console.log('Using openAI LLM API');
-      this.modelName = env.OPENAI_MODEL_NAME || 'gpt-4-vision-preview';
-      this.openai = new OpenAI({
-        apiKey: this.apiKey,
-      });
     }
+    return [...reasons];
   }
 
-  async checkCredits(): Promise<void> {
-    try {
-      const headers = {
-        "Authorization": `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json"
-      };
-  
-      // Calculate the dates for the past week
-      const now = new Date();
-      const endDate = now.toISOString().split('T')[0];
-      const startDate = new Date(now.getTime() - (7 * 24 * 60 * 60 * 1000)) // 7 days ago
-        .toISOString()
-        .split('T')[0];
-  
-      // Fetch subscription info (to get your total billing cap)
-      const subscriptionResponse = await fetch(
-        "https://api.openai.com/v1/dashboard/billing/subscription",
-        { headers }
-      );
-      const subscriptionData = await subscriptionResponse.json();
-  
-      // Fetch usage info (to get spending in the last 7 days)
-      const usageResponse = await fetch(
-        `https://api.openai.com/v1/dashboard/billing/usage?start_date=${startDate}&end_date=${endDate}`,
-        { headers }
-      );
-      const usageData = await usageResponse.json();
-  
-      const totalUsageDollars = (usageData.total_usage || 0) / 100; // usage is in cents
-      const hardLimitDollars = subscriptionData.hard_limit_usd || 0;
-      const remainingDollars = hardLimitDollars - totalUsageDollars;
-  
-      // Log everything nicely
-      this.logger.info('OpenAI Billing Information (past 7 days):');
-      this.logger.info(`Total Usage: $${totalUsageDollars.toFixed(2)}`);
-      this.logger.info(`Hard Limit: $${hardLimitDollars.toFixed(2)}`);
-      this.logger.info(`Remaining Budget: $${remainingDollars.toFixed(2)}`);
-  
-    } catch (error) {
-      this.logger.error(`Error checking OpenAI credits: ${error}`);
+  private getKeyModeForProvider(provider: LlmProvider): KeyMode {
+    const apiKeyEnv = this.settings.providers[provider.name]?.apiKeyEnv;
+    return getKeyMode(apiKeyEnv ? env[apiKeyEnv] : undefined);
+  }
+
+  /**
+   * Whether documents sent to this provider are shared (shared data key), so
+   * they have to be redacted first
+   */
+  isSharedKeyProvider(provider: LlmProvider): boolean {
+    return this.getKeyModeForProvider(provider) === 'shared';
+  }
+
+  /**
+   * First stage of the analysis: determine the document type from a single
+   * (low resolution) page. Uses the workspace or default provider, since the
+   * document type is not known yet.
+   */
+  async classifyDocument(filePath: string, imagePath: string): Promise<DocumentClassification> {
+    const provider = this.getProvider(filePath);
+    const base64Image = (await fs.readFile(imagePath)).toString('base64');
+    const prompt = await this.promptService.buildClassificationPrompt(filePath);
+    const response = await this.callVisionApi(provider, [base64Image], prompt, filePath, 'classification');
+
+    this.logger.debug(`Raw classification response: ${response}`);
+    const result = this.extractJson(response) as { document_type?: string; confidence?: string; supplier?: string };
+    if (!getDocumentTypeDeclaration(String(result?.document_type))) {
+      throw new Error(`Unknown document type in classification: ${result?.document_type}`);
     }
+
+    return {
+      documentType: String(result.document_type),
+      confidence: (CONFIDENCE_LEVELS.includes(result.confidence || '') ? result.confidence : 'low') as DocumentClassification['confidence'],
+      supplier: typeof result.supplier === 'string' && result.supplier.trim() !== '' ? result.supplier.trim() : undefined,
+      model: provider.model,
+      timestamp: new Date().toISOString(),
+    };
   }
-  
-  private getPromptForDocumentType(filePath: string): string {
-    const basePrompt = `You are a dutch speaking assistant that extracts information from document images. Based on the provided images, first determine the document type and then extract the relevant information.
-
-    Your answers are given in dutch.
-
-
-First, determine if this is an invoice, a movie cover, or a generic document. Then, extract and return the following fields in JSON format:
-
-For all documents, if there is no information on the page, add "blank" to the description field.
-
-{
-  "document_type": "invoice" | "movie_cover" | "generic" | "rekeningafschrift",
-  "extraction_status": "success" | "partial" | "failed",
-  "confidence": "low" | "medium" | "high",
-  "fields": {
-    // For invoices:
-    "invoice_date": "YYYYMMDD",
-    "company_name": "Supplier or company name",
-    "description": "Short invoice description (max 5 words)",
-    "invoice_amount": "Total invoice amount in euros, without currency symbol, use the amount without VAT/BTW. If not certain if the amount includes VAT, add a blank invoice_amount value in the JSON",
-    "invoice_currency": "Currency of the invoice, use letters, no currency symbol (e.g. EUR, USD, GBP, etc.)",
-
-    // For dvd/bluray covers:
-    "movie_title": "Title of the movie",
-    "type": "movie" or "series",
-    "season": "Season number of the series, if not applicable, use 0",
-    "disc_number": "Disc number of the series or movie, if not applicable, use 0. Where applicable use Movie Disc or Bonus Disc",
-    "media_format": "DVD or Blu-ray",
-    "description": "Short description of the series or movie content",
-    "duration": "Movie duration in format HH:MM",
-    "imdb_id": "IMDB ID of the movie -> try to extract title and year from the movie cover to get an accurate ID",
-
-    // For generic documents:
-    "document_date": "YYYYMMDD",
-    "document_category": "Category of the document (e.g. contract, brief, rapport, factuur, offerte, aangifte, etc.)",
-    "description": "Short document description. Try to be concise, but include all important information.",
-    "source": "Organization or person that created the document, try to find this in the header, title etcetera",
-
-    // for "Jaaropgave" documents:
-    // assume the document was sent on jan 1st of the next year when no exact date is provided
-    // always include the year of the jaaropgave in the document category field (e.g. "Jaaropgave 2024")
-
-    // for documents relating to belastingaangiften:
-    try to extract the year that the belastingaangifte is for and include this in the document category field (e.g. "Aangifte 2024")
-
-    // for postcards (one side is a picture, the other side has an area for a message and space for the recipient's address)
-    set the document category to "postcard" or "blank postcard"
-    try to extract the sender and recipient from the message on the postcard and make a description "from <sender> to <recipient>"
-    if there is no address area, it may be a birthday card, set the document category to "birthday card". Postcards never have a fold, birthday cards can. On a birthday card, the recipient's name is often in the first line of the message.
-
-    // for rekeningafschriften:
-    set the document category to "rekeningafschrift"
-    try to extract datum afschrift, page number, number of pages, bank account number and account holder name from the bankafschrift and include this in the document description field (e.g. "Bankafschrift accountnumber 20251021 (1 of 2) - account holder")    
-    "bank_account_number": "Bank account number",
-    "account_holder_name": "Account holder name",
-    "page_number": "Page number",
-    "number_of_pages": "Number of pages",
-    "document_date": "YYYYMMDD",
-    "document_category": "Category of the document (e.g. contract, brief, rapport, factuur, offerte, aangifte, etc.)",
-    "description": "Short document description. Try to be concise, but include all important information.",
-    "source": "Organization or person that created the document, try to find this in the header, title etcetera",
+
+  /**
+   * Second stage: extract the fields of the given document type. Without a
+   * document type the model has to determine the type and fields in one go.
+   * Earlier corrections for the supplier are added to the prompt as hints.
+   */
+  async extractDocumentData(filePath: string, imagePaths: string[], options: ExtractionOptions = {}): Promise<ExtractionResult> {
+    const { documentType, supplier, providerName, detail, pageTexts, pageCount } = options;
+    const provider = providerName ? this.getProviderByName(providerName) : this.getProvider(filePath, documentType);
+    const correctionExamples = documentType ? await this.getCorrectionExamples(documentType, supplier) : [];
+
+    // Read all images
+    const imageBuffers = await Promise.all(
+      imagePaths.map(path => fs.readFile(path))
+    );
+    const base64Images = imageBuffers.map(buffer => buffer.toString('base64'));
+
+    // Transient errors are retried per call in callVisionApi. A validation error has had its repair round-trip.
+    const prompt = await this.promptService.buildExtractionPrompt(filePath, documentType ? [documentType] : undefined, correctionExamples, pageTexts);
+    const response = await this.callVisionApi(provider, base64Images, prompt, filePath, 'extraction', detail, pageCount);
+    const documents = await this.parseAndRepair(provider, response, filePath);
+    return { provider: provider.name, model: provider.model, documents };
   }
-}`;
-
-    return `${basePrompt}
-
-  // Notes:
-  // - The original filename was ${path.basename(filePath)}, Keep this in mind while making the description.
-  // - Dates must be formatted as YYYYMMDD (e.g., 20240426).
-  // - The images that you receive all belong to the same document.
-  // - If any field is missing, leave it blank but still include it in the JSON.
-  // - Set extraction_status to:
-  //   - "success" if all fields are found and clear
-  //   - "partial" if some fields are found but others are missing or unclear
-  //   - "failed" if no fields could be extracted
-  // - Set confidence to:
-  //   - "high" if you're very confident in the extracted data
-  //   - "medium" if you're somewhat confident but some fields might be uncertain
-  //   - "low" if you're not very confident in the extracted data
-  // - Do not include extra commentary.
-  // - Do not include any other text than the JSON
-  // - Do not use markdown.
-  // - Return a single JSON object for the document.
-  // - some generic documents have a source, try to find this in the header, title etcetera
-  // - some generic documents are kids drawings`;
+
+  private async getCorrectionExamples(documentType: DocumentTypeName, supplier?: string): Promise<string[]> {
+    const { maxExamples, maxExampleTokens } = this.correctionSettings;
+    // Corrections learned after a recording would change the prompt, and so miss its fixture
+    if (maxExamples <= 0 || maxExampleTokens <= 0 || this.settings.fixtures) {
+      return [];
+    }
+    try {
+      // Reload, corrections are recorded by other routes
+      await this.correctionService.loadCorrections();
+      const examples = this.correctionService.selectExamples(documentType, supplier, maxExamples, maxExampleTokens);
+      if (examples.length > 0) {
+        this.logger.debug(`Adding ${examples.length} corrected examples to the prompt (supplier: ${supplier || 'unknown'})`);
+      }
+      return examples.map(formatCorrection);
+    } catch (error) {
+      // Hints are optional, extract without them
+      this.logger.warn(`Error loading corrections: ${error}`);
+      return [];
+    }
   }
 
-  async extractDocumentData(filePath: string, imagePaths: string[]): Promise<DocumentData[]> {
-    let retries = 0;
-    while (retries < this.MAX_RETRIES) {
+  /**
+   * Call the provider within its rate limits. Transient errors (rate limits,
+   * timeouts, server errors) are retried with exponential backoff, or after
+   * the delay the provider asked for in Retry-After. A Retry-After longer than
+   * a minute is thrown right away, like other errors, as LlmError.
+   */
+  private async callVisionApi(provider: LlmProvider, base64Images: string[], prompt: string, filePath: string, purpose: UsagePurpose, detail?: ImageDetail, pageCount = base64Images.length): Promise<string> {
+    const rateLimiter = getRateLimiter(provider.name, this.settings.providers[provider.name]?.rateLimit || {}, this.logger);
+    const estimatedTokens = estimateRequestTokens(prompt, base64Images.length, detail);
+
+    for (let attempt = 1; ; attempt++) {
+      const reservation = await rateLimiter.acquire(estimatedTokens);
       try {
-        // Read all images
-        const imageBuffers = await Promise.all(
-          imagePaths.map(path => fs.readFile(path))
-        );
-        const base64Images = imageBuffers.map(buffer => buffer.toString('base64'));
-
-        const prompt = this.getPromptForDocumentType(filePath);
-        const response = await this.callVisionApi(base64Images, prompt);
-        return this.parseResponse(response);
+        const response = await provider.complete({
+          prompt,
+          images: base64Images,
+          maxTokens: MAX_RESPONSE_TOKENS,
+          detail
+        });
+        rateLimiter.settle(reservation, response.usage ? response.usage.promptTokens + response.usage.completionTokens : estimatedTokens);
+        await this.recordUsage(provider, response.model, response.usage, filePath, pageCount, purpose);
+        return response.content;
       } catch (error) {
-        retries++;
-        if (retries === this.MAX_RETRIES) {
-          throw error;
+        const llmError = toLlmError(error);
+        this.logger.error(`Error calling vision API (${provider.name}/${provider.model}, ${llmError.kind}): ${llmError.message}`);
+        if (llmError.kind !== 'transient' || attempt >= this.MAX_ATTEMPTS) {
+          throw llmError;
         }
-        this.logger.warn(`Retry ${retries}/${this.MAX_RETRIES} after error: ${error}`);
-        await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY));
+
+        const backoff = Math.min(this.RETRY_DELAY * 2 ** (attempt - 1), this.MAX_RETRY_DELAY);
+        const delay = Math.min(llmError.retryAfterMs ?? backoff + Math.floor(Math.random() * this.RETRY_DELAY), this.MAX_RETRY_DELAY);
+        if (llmError.status === 429) {
+          // Hold back the other requests to this provider as well
+          rateLimiter.pauseUntil(Date.now() + delay);
+        }
+        // Not worth waiting for within the request: the analyze routes postpone the file
+        if (llmError.retryAfterMs !== undefined && llmError.retryAfterMs > this.MAX_RETRY_DELAY) {
+          throw llmError;
+        }
+        this.logger.warn(`Retry ${attempt}/${this.MAX_ATTEMPTS - 1} for ${provider.name} in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
-
-    throw new Error('Failed to extract document data after maximum retries');
   }
 
-  private async callVisionApi(base64Images: string[], prompt: string): Promise<string> {
+  private async recordUsage(provider: LlmProvider, model: string, usage: LlmUsage | undefined, filePath: string, pageCount: number, purpose: UsagePurpose): Promise<void> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.modelName,
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              ...base64Images.map(base64Image => ({
-                type: "image_url",
-                image_url: {
-                  url: `data:image/png;base64,${base64Image}`
-                }
-              })) as unknown
-            ]
-          }
-        ],
-        max_tokens: 1000
-      },
-      {
-        experimental: { vision: true }
+      await this.usageLedger.recordUsage({
+        filePath,
+        folder: getWorkspaceForPath(filePath) || path.dirname(filePath),
+        provider: provider.name,
+        model,
+        keyMode: this.getKeyModeForProvider(provider),
+        purpose,
+        pageCount,
+        promptTokens: usage?.promptTokens || 0,
+        completionTokens: usage?.completionTokens || 0,
       });
+    } catch (error) {
+      // A failing ledger must not fail the analysis
+      this.logger.error(`Error recording LLM usage: ${error}`);
+    }
+  }
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No content in API response');
-      }
+  /**
+   * Parse and validate the model output. When validation fails the model gets
+   * one follow-up request to fix the offending fields before we give up.
+   */
+  private async parseAndRepair(provider: LlmProvider, response: string, filePath: string): Promise<ExtractedDocument[]> {
+    const firstAttempt = this.parseResponse(response);
+    if (firstAttempt.valid) {
+      return firstAttempt.data;
+    }
 
-      return content;
-    } catch (error) {
-      this.logger.error(`Error calling vision API: ${error}`);
-      throw error;
+    this.logger.warn(`LLM output failed validation, requesting repair: ${this.formatErrors(firstAttempt.errors)}`);
+    const repairResponse = await this.callVisionApi(provider, [], this.getRepairPrompt(response, firstAttempt.errors), filePath, 'repair');
+    const secondAttempt = this.parseResponse(repairResponse);
+    if (secondAttempt.valid) {
+      this.logger.info('Repaired LLM output passed validation');
+      return secondAttempt.data;
     }
+
+    throw new DocumentValidationError(secondAttempt.errors);
   }
 
-  private parseResponse(response: string): DocumentData[] {
-    try {
-      this.logger.debug(`Raw LLM response: ${response}`);
-      
-      // Try to extract JSON from the response if it's wrapped in markdown code blocks
-      const jsonMatch = response.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-      const jsonStr = jsonMatch ? jsonMatch[1] : response;
-      
-      const data = JSON.parse(jsonStr);
-      
-      // Handle both single object and array responses
-      const results = Array.isArray(data) ? data : [data];
-      
-      return results.map(item => {
-        const documentType = item.document_type;
-        const fields = item.fields || {};
-
-        let result: DocumentData;
-
-        switch (documentType) {
-          case DocumentType.INVOICE:
-            result = {
-              invoice_date: fields.invoice_date || '',
-              company_name: fields.company_name || '',
-              description: fields.description || '',
-              invoice_amount: fields.invoice_amount || '',
-              invoice_currency: fields.invoice_currency || 'EUR',
-              extraction_status: item.extraction_status || 'partial',
-              confidence: item.confidence || 'low'
-            };
-            break;
-
-          case DocumentType.MOVIE_COVER:
-            result = {
-              movie_title: fields.movie_title || '',
-              type: fields.type || 'movie',
-              season: parseInt(fields.season || '0', 10),
-              disc_number: fields.disc_number || '',
-              media_format: fields.media_format || 'DVD',
-              description: fields.description || '',
-              duration: fields.duration || '',
-              imdb_id: fields.imdb_id || '',
-              extraction_status: item.extraction_status || 'partial',
-              confidence: item.confidence || 'low'
-            };
-            break;
-
-          case DocumentType.REKENINGAFSCHRIFT:
-            result = {
-              document_date: fields.document_date || '',
-              document_category: fields.document_category || '',
-              description: fields.description || '',
-              extraction_status: item.extraction_status || 'partial',
-              confidence: item.confidence || 'low',
-              source: fields.source || ''
-            };
-            break;
-          case DocumentType.GENERIC:
-            result = {
-              document_date: fields.document_date || '',
-              document_category: fields.document_category || '',
-              description: fields.description || '',
-              extraction_status: item.extraction_status || 'partial',
-              confidence: item.confidence || 'low',
-              source: fields.source || ''
-            };
-            break;
-
-          default:
-            throw new Error(`Unknown document type: ${documentType}`);
-        }
+  private getRepairPrompt(response: string, errors: FieldError[]): string {
+    return `The JSON below was extracted from a document, but some fields are invalid.
 
-        return result;
-      });
+Invalid fields:
+${errors.map(error => `- ${error.field}: ${error.message} (got ${JSON.stringify(error.value)})`).join('\n')}
+
+Return the same JSON with only these fields corrected. If a value cannot be corrected, make it an empty string.
+Do not change any other field. Do not include any other text than the JSON. Do not use markdown.
+
+${response}`;
+  }
+
+  private formatErrors(errors: FieldError[]): string {
+    return errors.map(error => `${error.field} (${error.message})`).join(', ');
+  }
+
+  private extractJson(response: string): unknown {
+    // Try to extract JSON from the response if it's wrapped in markdown code blocks
+    const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    const text = codeBlockMatch ? codeBlockMatch[1] : response;
+
+    // Skip any text the model put around the JSON
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    return JSON.parse(start >= 0 && end > start ? text.substring(start, end + 1) : text);
+  }
+
+  private parseResponse(response: string): { valid: true; data: ExtractedDocument[] } | { valid: false; errors: FieldError[] } {
+    this.logger.debug(`Raw LLM response: ${response}`);
+
+    let parsed: unknown;
+    try {
+      parsed = this.extractJson(response);
     } catch (error) {
       this.logger.error(`Error parsing LLM response: ${error}`);
       this.logger.error(`Failed response: ${response}`);
-      throw error;
+      return { valid: false, errors: [{ field: 'json', message: `not valid JSON: ${error instanceof Error ? error.message : error}` }] };
+    }
+
+    // Handle both single object and array responses
+    const items = Array.isArray(parsed) ? parsed : [parsed];
+    if (items.length === 0) {
+      return { valid: false, errors: [{ field: 'json', message: 'no results in response' }] };
     }
+
+    const data: ExtractedDocument[] = [];
+    const errors: FieldError[] = [];
+    items.forEach((item, index) => {
+      const result = validateDocumentResult(item);
+      if (result.valid && result.data && result.documentType) {
+        data.push({ documentType: result.documentType, data: result.data, pageRange: result.pageRange });
+      } else {
+        // Prefix field names with the result index when the model returned several documents
+        errors.push(...result.errors.map(error => items.length > 1 ? { ...error, field: `[${index}].${error.field}` } : error));
+      }
+    });
+
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, data };
   }
-} 
\ No newline at end of file
+}
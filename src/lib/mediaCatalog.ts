@@ -0,0 +1,169 @@
+import { DocumentType, FileInfo, MediaCoverData, MovieCoverData } from '@/types';
+
+export interface CatalogEntry {
+  kind: 'movie' | 'series' | 'album' | 'game' | 'book';
+  format: string;           // DVD, Blu-ray, CD, vinyl, game or book
+  title: string;
+  creator: string;          // Album artist or author
+  publisher: string;
+  year?: number;
+  season?: number;
+  disc_number: string;
+  track_count?: number;
+  platform: string;
+  isbn: string;
+  imdb_id: string;
+  duration: string;         // HH:MM, movies only
+  description: string;
+  fileId: string;
+  currentPath: string;      // The cover image
+  type: FileInfo['type'];
+  parentId?: string;        // Set while the cover is still part of an unsplit multi-cover scan
+}
+
+const CSV_COLUMNS: (keyof CatalogEntry)[] = [
+  'format', 'title', 'creator', 'publisher', 'year', 'season', 'disc_number', 'track_count', 'platform', 'isbn', 'imdb_id', 'duration', 'currentPath',
+];
+
+// Models answer "0" for a disc or season that does not apply
+function cleanNumber(value: unknown): string {
+  const text = String(value ?? '').trim();
+  return text === '0' ? '' : text;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value === undefined || value === null || value === '' || isNaN(number) || number === 0 ? undefined : number;
+}
+
+function fromMovieCover(file: FileInfo): CatalogEntry {
+  const data = file.data as MovieCoverData;
+  return {
+    kind: data.type === 'series' ? 'series' : 'movie',
+    format: data.media_format || '',
+    title: data.movie_title || '',
+    creator: '',
+    publisher: '',
+    season: toOptionalNumber(data.season),
+    disc_number: cleanNumber(data.disc_number),
+    platform: '',
+    isbn: '',
+    imdb_id: data.imdb_id || '',
+    duration: data.duration || '',
+    description: data.description || '',
+    fileId: file.id,
+    currentPath: file.currentPath,
+    type: file.type,
+    parentId: file.parentId,
+  };
+}
+
+function fromMediaCover(file: FileInfo): CatalogEntry {
+  const data = file.data as MediaCoverData;
+  const format = data.media_format || '';
+  return {
+    kind: format === 'game' ? 'game' : format === 'book' ? 'book' : 'album',
+    format,
+    title: data.title || '',
+    creator: data.artist || data.author || '',
+    publisher: data.publisher || '',
+    year: toOptionalNumber(data.year),
+    disc_number: cleanNumber(data.disc_number),
+    track_count: toOptionalNumber(data.track_count),
+    platform: data.platform || '',
+    isbn: data.isbn || '',
+    imdb_id: '',
+    duration: '',
+    description: data.description || '',
+    fileId: file.id,
+    currentPath: file.currentPath,
+    type: file.type,
+    parentId: file.parentId,
+  };
+}
+
+/**
+ * All analyzed movie and media covers, by format, title and disc number
+ */
+export function getMediaCatalog(files: FileInfo[]): CatalogEntry[] {
+  return files
+    .filter(file => file.status === 'analyzed' && file.data && !file.childIds?.length)
+    .flatMap(file => {
+      if (file.documentType === DocumentType.MOVIE_COVER) {
+        return [fromMovieCover(file)];
+      }
+      if (file.documentType === DocumentType.MEDIA_COVER) {
+        return [fromMediaCover(file)];
+      }
+      return [];
+    })
+    .sort((a, b) =>
+      a.format.localeCompare(b.format) ||
+      a.title.localeCompare(b.title) ||
+      (a.season || 0) - (b.season || 0) ||
+      a.disc_number.localeCompare(b.disc_number, undefined, { numeric: true })
+    );
+}
+
+function escapeCsv(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCatalogCsv(entries: CatalogEntry[]): string {
+  return [CSV_COLUMNS, ...entries.map(entry => CSV_COLUMNS.map(column => entry[column]))]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getRuntimeMinutes(duration: string): number | undefined {
+  const match = /^(\d+):(\d{2})$/.exec(duration.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+/**
+ * Kodi style .nfo for a catalog entry. Kodi reads the movie, tvshow and album
+ * elements; games and books get the same layout for other catalog tools.
+ */
+export function toNfo(entry: CatalogEntry): string {
+  const root = entry.kind === 'series' ? 'tvshow' : entry.kind;
+  const elements: [string, unknown][] = [
+    ['title', entry.title],
+    ['season', entry.season],
+    ['artistdesc', entry.kind === 'album' ? entry.creator : undefined],
+    ['author', entry.kind === 'book' ? entry.creator : undefined],
+    [entry.kind === 'album' ? 'label' : 'publisher', entry.publisher],
+    ['year', entry.year],
+    ['platform', entry.platform],
+    ['isbn', entry.isbn],
+    ['runtime', getRuntimeMinutes(entry.duration)],
+    ['disc', entry.disc_number],
+    ['tracks', entry.track_count],
+    [entry.kind === 'album' ? 'review' : 'plot', entry.description],
+  ];
+
+  const lines = elements
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([element, value]) => `  <${element}>${escapeXml(String(value))}</${element}>`);
+  if (entry.imdb_id) {
+    lines.push(`  <uniqueid type="imdb" default="true">${escapeXml(entry.imdb_id)}</uniqueid>`);
+  }
+  lines.push(`  <format>${escapeXml(entry.format)}</format>`);
+
+  return ['<?xml version="1.0" encoding="UTF-8" standalone="yes"?>', `<${root}>`, ...lines, `</${root}>`, ''].join('\n');
+}
+
+/**
+ * The sidecar file next to the cover: same name, .nfo extension
+ */
+export function getNfoPath(coverPath: string): string {
+  return coverPath.replace(/\.[^./]+$/, '') + '.nfo';
+}
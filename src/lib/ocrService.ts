@@ -0,0 +1,121 @@
+import { Logger } from './logger';
+import { spawn } from 'node:child_process';
+import { loadSettings, OcrSettings } from './settings';
+
+export interface OcrWord {
+  text: string;
+  confidence: number;   // 0-100
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  block: number;
+  paragraph: number;
+  line: number;
+}
+
+export interface OcrResult {
+  text: string;
+  words: OcrWord[];
+}
+
+// Level of the word rows in tesseract's TSV output
+const TSV_WORD_LEVEL = 5;
+
+/**
+ * Parse the TSV output of tesseract into words with their boxes, and the text
+ * with a line per OCR line and an empty line between paragraphs
+ */
+export function parseTesseractTsv(tsv: string): OcrResult {
+  const words: OcrWord[] = [];
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    if (columns.length < 12 || Number(columns[0]) !== TSV_WORD_LEVEL || columns[11].trim() === '') {
+      continue;
+    }
+    words.push({
+      text: columns[11].trim(),
+      confidence: Number(columns[10]),
+      left: Number(columns[6]),
+      top: Number(columns[7]),
+      width: Number(columns[8]),
+      height: Number(columns[9]),
+      block: Number(columns[2]),
+      paragraph: Number(columns[3]),
+      line: Number(columns[4]),
+    });
+  }
+
+  let text = '';
+  words.forEach((word, index) => {
+    const previous = words[index - 1];
+    if (previous) {
+      if (previous.block !== word.block || previous.paragraph !== word.paragraph) {
+        text += '\n\n';
+      } else if (previous.line !== word.line) {
+        text += '\n';
+      } else {
+        text += ' ';
+      }
+    }
+    text += word.text;
+  });
+
+  return { text, words };
+}
+
+/**
+ * Local OCR with tesseract, run as a child process like pdftoppm. Used to
+ * give the model a second reading of numbers on scans.
+ */
+export class OcrService {
+  private logger: Logger;
+  private settings: OcrSettings;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    this.settings = loadSettings().ocr;
+  }
+
+  isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  async recognize(imagePath: string): Promise<OcrResult> {
+    const tsv = await new Promise<string>((resolve, reject) => {
+      const tesseract = spawn(this.settings.command, [imagePath, 'stdout', '-l', this.settings.languages, 'tsv']);
+      let stdout = '';
+      let stderr = '';
+      // A damaged image can keep tesseract busy for a long time
+      const timer = setTimeout(() => {
+        tesseract.kill();
+        reject(new Error(`tesseract timed out after ${this.settings.timeoutMs}ms on ${imagePath}`));
+      }, this.settings.timeoutMs);
+
+      tesseract.stdout.on('data', (data) => {
+        stdout += data;
+      });
+
+      tesseract.stderr.on('data', (data) => {
+        stderr += data;
+      });
+
+      tesseract.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      tesseract.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`tesseract process exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+
+    const result = parseTesseractTsv(tsv);
+    this.logger.debug(`OCR found ${result.words.length} words in ${imagePath}`);
+    return result;
+  }
+}
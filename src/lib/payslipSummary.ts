@@ -0,0 +1,103 @@
+import { DocumentType, FileInfo, PayslipData } from '@/types';
+
+export interface PayslipTotals {
+  gross_salary: number;
+  net_salary: number;
+  loonheffing: number;
+  holiday_allowance: number;
+  pension_contribution: number;
+}
+
+/**
+ * The payslips of one employee at one employer in one year, to compare with
+ * the jaaropgave of that employer
+ */
+export interface PayslipYearSummary {
+  year: string;
+  employer: string;
+  employee_name: string;
+  currency: string;
+  months: string[];          // Periods (YYYYMM) with a payslip
+  missingMonths: string[];   // Periods between the first and the last payslip without one
+  duplicateMonths: string[]; // Periods with more than one payslip, e.g. a correction
+  totals: PayslipTotals;
+  fileIds: string[];
+}
+
+const TOTAL_FIELDS: (keyof PayslipTotals)[] = ['gross_salary', 'net_salary', 'loonheffing', 'holiday_allowance', 'pension_contribution'];
+
+function toNumber(value?: string): number {
+  const number = Number(value);
+  return value && !isNaN(number) ? number : 0;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function getMonthsBetween(first: string, last: string): string[] {
+  const months: string[] = [];
+  const year = first.substring(0, 4);
+  for (let month = Number(first.substring(4, 6)); month <= Number(last.substring(4, 6)); month++) {
+    months.push(`${year}${String(month).padStart(2, '0')}`);
+  }
+  return months;
+}
+
+/**
+ * Add up the analyzed payslips per year, employer and employee. Pass a year
+ * (YYYY) to get only that year.
+ */
+export function summarizePayslips(files: FileInfo[], year?: string): PayslipYearSummary[] {
+  const summaries = new Map<string, PayslipYearSummary>();
+
+  for (const file of files) {
+    if (file.documentType !== DocumentType.LOONSTROOK || file.status !== 'analyzed' || !file.data || file.childIds?.length) {
+      continue;
+    }
+    const data = file.data as PayslipData;
+    const payslipYear = data.period?.substring(0, 4);
+    if (!payslipYear || (year && payslipYear !== year)) {
+      continue;
+    }
+
+    // Group regardless of case and punctuation in the names
+    const key = [payslipYear, data.employer, data.employee_name].map(part => (part || '').toLowerCase().replace(/[^a-z0-9]/g, '')).join('|');
+    const summary: PayslipYearSummary = summaries.get(key) || {
+      year: payslipYear,
+      employer: data.employer,
+      employee_name: data.employee_name,
+      currency: data.currency || 'EUR',
+      months: [],
+      missingMonths: [],
+      duplicateMonths: [],
+      totals: { gross_salary: 0, net_salary: 0, loonheffing: 0, holiday_allowance: 0, pension_contribution: 0 },
+      fileIds: [],
+    };
+    summaries.set(key, summary);
+
+    if (summary.months.includes(data.period)) {
+      if (!summary.duplicateMonths.includes(data.period)) {
+        summary.duplicateMonths.push(data.period);
+      }
+    } else {
+      summary.months.push(data.period);
+    }
+    TOTAL_FIELDS.forEach(field => {
+      summary.totals[field] = round(summary.totals[field] + toNumber(data[field]));
+    });
+    summary.fileIds.push(file.id);
+  }
+
+  return [...summaries.values()]
+    .map(summary => {
+      const months = summary.months.sort();
+      return {
+        ...summary,
+        months,
+        missingMonths: getMonthsBetween(months[0], months[months.length - 1]).filter(month => !months.includes(month)),
+        duplicateMonths: summary.duplicateMonths.sort(),
+      };
+    })
+    .sort((a, b) => a.year.localeCompare(b.year) || a.employer.localeCompare(b.employer));
+}
@@ -2,6 +2,62 @@ import { Logger } from './logger';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { spawn } from 'node:child_process';
+import { PDFDocument } from 'pdf-lib';
+import { PageRange, PageText } from '@/types';
+import { PagePolicy } from './settings';
+
+/**
+ * Pages (1-based, ascending) to analyze under a page policy: the first and
+ * last pages it asks for, or all pages when it sets neither
+ */
+export function selectPages(pageCount: number, policy: PagePolicy): number[] {
+  const allPages = Array.from({ length: pageCount }, (_, i) => i + 1);
+  if (policy.firstPages === undefined && policy.lastPages === undefined) {
+    return allPages;
+  }
+  const firstPages = policy.firstPages || 0;
+  const lastPages = policy.lastPages || 0;
+  const pages = allPages.filter(page => page <= firstPages || page > pageCount - lastPages);
+  // Always analyze something
+  return pages.length > 0 ? pages : allPages.slice(0, 1);
+}
+
+// A page with less text than this is probably a scan (or a scan with a few printed labels)
+const MIN_TEXT_CHARS_PER_PAGE = 25;
+// Share of letters, digits, punctuation and spaces in a readable text layer; fonts without
+// a proper encoding produce symbol soup
+const MIN_READABLE_RATIO = 0.8;
+
+/**
+ * Whether the text layer of these pages can replace their images: every page
+ * has a reasonable amount of text and the text is readable
+ */
+export function hasUsableTextLayer(pageTexts: PageText[]): boolean {
+  return pageTexts.length > 0 && pageTexts.every(pageText => {
+    const characters = pageText.text.replace(/\s/g, '');
+    if (characters.length < MIN_TEXT_CHARS_PER_PAGE) {
+      return false;
+    }
+    const readable = characters.match(/[\p{L}\p{N}\p{P}\p{Sc}]/gu)?.length || 0;
+    return readable / characters.length >= MIN_READABLE_RATIO;
+  });
+}
+
+/**
+ * Group ascending page numbers into ranges of consecutive pages
+ */
+function toPageRanges(pages: number[]): PageRange[] {
+  const ranges: PageRange[] = [];
+  for (const page of pages) {
+    const last = ranges[ranges.length - 1];
+    if (last && page === last.to + 1) {
+      last.to = page;
+    } else {
+      ranges.push({ from: page, to: page });
+    }
+  }
+  return ranges;
+}
 
 export class PdfService {
   private logger: Logger;
@@ -63,7 +119,11 @@ export class PdfService {
     );
   }
 
-  async convertPdfToImages(pdfPath: string, useJPG: boolean=true): Promise<string[]> {
+  /**
+   * Render pages of a PDF to images in the temp directory, in page order.
+   * Pass pages (1-based) to render only those, otherwise all pages are rendered.
+   */
+  async convertPdfToImages(pdfPath: string, useJPG: boolean=true, pages?: number[]): Promise<string[]> {
     // Use centralized temp directory outside scanned folders
     const outputDir = this.tempDir;
     // Create unique filename to avoid conflicts when processing multiple PDFs
@@ -74,43 +134,129 @@ export class PdfService {
     try {
       await fs.mkdir(outputDir, { recursive: true });
 
-      return new Promise((resolve, reject) => {
-        const pdftoppm = spawn('pdftoppm', [
-          useJPG ? '-jpeg': '-png',
-          '-r', useJPG ?'300':'300',
-          pdfPath,
-          outputPrefix
-        ]);
-
-        pdftoppm.stdout.on('data', (data) => {
-          this.logger.debug(`pdftoppm stdout: ${data}`);
-        });
-
-        pdftoppm.stderr.on('data', (data) => {
-          this.logger.debug(`pdftoppm stderr: ${data}`);
-        });
-
-        pdftoppm.on('close', async (code) => {
-          if (code === 0) {
-            try {
-              // Wait for files to be fully written to disk, filtering by the unique prefix
-              const files = await this.waitForFiles(outputDir, imgtype, uniqueId);
-              const imageFiles = files.map(file => path.join(outputDir, file));
-              resolve(imageFiles);
-            } catch (error) {
-              reject(error);
-            }
-          } else {
-            reject(new Error(`pdftoppm process exited with code ${code}`));
-          }
-        });
-      });
+      // pdftoppm renders one range of pages per run
+      const ranges = pages ? toPageRanges(pages) : [undefined];
+      for (const range of ranges) {
+        await this.runPdftoppm(pdfPath, outputPrefix, useJPG, range);
+      }
+
+      // Wait for files to be fully written to disk, filtering by the unique prefix.
+      // Page numbers are zero padded, so sorting by name gives the page order.
+      const files = await this.waitForFiles(outputDir, imgtype, uniqueId);
+      return files.sort().map(file => path.join(outputDir, file));
     } catch (error) {
       this.logger.error(`Error converting PDF to images: ${error}`);
       throw error;
     }
   }
 
+  private runPdftoppm(pdfPath: string, outputPrefix: string, useJPG: boolean, range?: PageRange): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const pdftoppm = spawn('pdftoppm', [
+        useJPG ? '-jpeg': '-png',
+        '-r', '300',
+        ...(range ? ['-f', String(range.from), '-l', String(range.to)] : []),
+        pdfPath,
+        outputPrefix
+      ]);
+
+      pdftoppm.stdout.on('data', (data) => {
+        this.logger.debug(`pdftoppm stdout: ${data}`);
+      });
+
+      pdftoppm.stderr.on('data', (data) => {
+        this.logger.debug(`pdftoppm stderr: ${data}`);
+      });
+
+      pdftoppm.on('error', reject);
+      pdftoppm.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`pdftoppm process exited with code ${code}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Number of pages according to pdfinfo, which reads the same files pdftoppm can
+   */
+  async getPageCount(pdfPath: string): Promise<number> {
+    const output = await new Promise<string>((resolve, reject) => {
+      const pdfinfo = spawn('pdfinfo', [pdfPath]);
+      let stdout = '';
+      pdfinfo.stdout.on('data', (data) => {
+        stdout += data;
+      });
+      pdfinfo.on('error', reject);
+      pdfinfo.on('close', (code) => {
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`pdfinfo process exited with code ${code}`));
+        }
+      });
+    });
+
+    const match = output.match(/^Pages:\s+(\d+)/m);
+    if (!match) {
+      throw new Error(`Could not determine the number of pages of ${pdfPath}`);
+    }
+    return parseInt(match[1], 10);
+  }
+
+  /**
+   * Text layer of every page, using pdfjs. Scanned PDFs without OCR give
+   * (nearly) empty pages, see hasUsableTextLayer.
+   */
+  async extractText(pdfPath: string): Promise<PageText[]> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(await fs.readFile(pdfPath)),
+      isEvalSupported: false,
+      disableFontFace: true,
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise;
+
+    try {
+      const pageTexts: PageText[] = [];
+      for (let page = 1; page <= pdf.numPages; page++) {
+        const content = await (await pdf.getPage(page)).getTextContent();
+        const text = content.items
+          .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+          .join('')
+          .replace(/[ \t]+/g, ' ')
+          .replace(/\n{3,}/g, '\n\n')
+          .trim();
+        pageTexts.push({ page, text, source: 'pdf' });
+      }
+      this.logger.debug(`Extracted text layer of ${pdf.numPages} pages from ${pdfPath}`);
+      return pageTexts;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Copy a range of pages (1-based, inclusive) of a PDF into a new PDF file
+   */
+  async extractPages(pdfPath: string, pageRange: PageRange, outputPath: string): Promise<void> {
+    const sourceDoc = await PDFDocument.load(await fs.readFile(pdfPath));
+    const pageCount = sourceDoc.getPageCount();
+    if (pageRange.from < 1 || pageRange.to > pageCount || pageRange.from > pageRange.to) {
+      throw new Error(`Invalid page range ${pageRange.from}-${pageRange.to} for ${pdfPath} (${pageCount} pages)`);
+    }
+
+    const outputDoc = await PDFDocument.create();
+    const pageIndices = Array.from({ length: pageRange.to - pageRange.from + 1 }, (_, i) => pageRange.from - 1 + i);
+    const pages = await outputDoc.copyPages(sourceDoc, pageIndices);
+    pages.forEach(page => outputDoc.addPage(page));
+
+    await fs.writeFile(outputPath, await outputDoc.save());
+    this.logger.debug(`Extracted pages ${pageRange.from}-${pageRange.to} of ${pdfPath} to ${outputPath}`);
+  }
+
   async cleanupTempImages(imagePaths: string[]): Promise<void> {
     try {
       for (const imagePath of imagePaths) {
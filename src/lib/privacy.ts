@@ -0,0 +1,89 @@
+import { env } from 'node:process';
+import path from 'path';
+import { DocumentClassification } from '@/types';
+import { getWorkspaceForPath, loadSettings } from './settings';
+
+export type KeyMode = 'shared' | 'private' | 'none';
+
+/**
+ * The shared data key (OPENAI_API_KEY_SHARED_DATA) comes with free credits in
+ * exchange for sharing the data with OpenAI. Any other key is private.
+ */
+export function getKeyMode(apiKey: string | undefined): KeyMode {
+  if (!apiKey) {
+    return 'none';
+  }
+  const sharedDataKey = env.OPENAI_API_KEY_SHARED_DATA || '';
+  return apiKey === sharedDataKey ? 'shared' : 'private';
+}
+
+export interface ProviderKeyMode {
+  provider: string;
+  usedFor: string;          // default, escalation, or the folder or document type mapped to it
+  keyMode: KeyMode;
+}
+
+/**
+ * Key mode of every provider that documents are sent to, selected like
+ * processFile does. Providers only used for private-only folders or
+ * document types are left out: those documents are refused rather than sent.
+ */
+export function getProviderKeyModes(): ProviderKeyMode[] {
+  const { llm } = loadSettings();
+  // Replays come from the fixture files, nothing is sent
+  if (llm.fixtures?.mode === 'replay') {
+    return [];
+  }
+
+  const uses: [string, string][] = [[llm.defaultProvider, 'default']];
+  for (const [folder, provider] of Object.entries(llm.workspaces || {})) {
+    // Any file in the folder
+    if (!getPrivateOnlyReason(path.join(folder, 'file'))) {
+      uses.push([provider, `folder ${path.basename(folder)}`]);
+    }
+  }
+  for (const [documentType, provider] of Object.entries(llm.documentTypes || {})) {
+    if (!getPrivateOnlyReason('', documentType)) {
+      uses.push([provider, `document type ${documentType}`]);
+    }
+  }
+  if (llm.escalation?.provider) {
+    uses.push([llm.escalation.provider, 'escalation']);
+  }
+
+  return uses.map(([provider, usedFor]) => {
+    const apiKeyEnv = llm.providers[provider]?.apiKeyEnv;
+    return { provider, usedFor, keyMode: getKeyMode(apiKeyEnv ? env[apiKeyEnv] : undefined) };
+  });
+}
+
+/**
+ * Thrown instead of sending a private-only document with the shared data key
+ */
+export class PrivacyError extends Error {
+  // Made before the refusal; kept on the record so the file is not classified again
+  classification?: DocumentClassification;
+
+  constructor(message: string, classification?: DocumentClassification) {
+    super(message);
+    this.name = 'PrivacyError';
+    this.classification = classification;
+  }
+}
+
+/**
+ * Reason why a file must not be sent with the shared data key, or undefined
+ * when it may be sent (redacted). Pass an empty path to check only the
+ * document type.
+ */
+export function getPrivateOnlyReason(filePath: string, documentType?: string): string | undefined {
+  const { privateDocumentTypes, privateFolders } = loadSettings().privacy;
+  if (documentType && privateDocumentTypes.includes(documentType)) {
+    return `document type ${documentType} is private-only`;
+  }
+  const folder = filePath ? getWorkspaceForPath(filePath, privateFolders) : undefined;
+  if (folder) {
+    return `folder ${path.basename(folder)} is private-only`;
+  }
+  return undefined;
+}
@@ -0,0 +1,201 @@
+import { Logger } from './logger';
+import { promises as fs } from 'node:fs';
+import path from 'path';
+import { DocumentTypeName, PageText } from '@/types';
+import { DocumentTypeDeclaration, FieldSchema } from './documentTypes';
+import { FamilyMember, getDocumentTypeDeclaration, getWorkspaceForPath, loadDocumentTypes, loadSettings, PromptSettings } from './settings';
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  nl: 'Dutch',
+  de: 'German',
+  en: 'English',
+  fr: 'French',
+};
+
+export type PromptVariables = Record<string, string>;
+
+/**
+ * Replace {variable} placeholders. Unknown placeholders are left alone so
+ * JSON examples in the templates survive.
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{([a-z_]+)\}/g, (match, name: string) =>
+    name in variables ? variables[name] : match
+  );
+}
+
+const FIELD_HINTS: Record<FieldSchema['type'], string> = {
+  string: '',
+  date: 'YYYYMMDD',
+  month: 'YYYYMM',
+  amount: 'plain number without currency symbol',
+  integer: 'whole number',
+  currency: 'currency code, e.g. EUR',
+  enum: '',
+  list: '',
+};
+
+function describeField(name: string, field: FieldSchema): string {
+  if (field.type === 'enum') {
+    return (field.values || []).map(value => `"${value}"`).join(' | ');
+  }
+  if (field.type === 'list') {
+    const items = Object.entries(field.items || {}).map(([item, itemField]) => `"${item}": ${describeField(item, itemField)}`);
+    return `[ { ${items.join(', ')} } ]`;
+  }
+  const description = [field.description || name.replace(/_/g, ' '), FIELD_HINTS[field.type]].filter(Boolean).join(', ');
+  return `"${description}"`;
+}
+
+function describeFamilyMembers(family: FamilyMember[]): string {
+  if (family.length === 0) {
+    return 'not known';
+  }
+  return family
+    .map(member => member.birthDate ? `${member.name} (born ${member.birthDate})` : member.name)
+    .join(', ');
+}
+
+/**
+ * Extraction prompt fields for a declared type without a prompt of its own
+ */
+function generateTypeFragment(declaration: DocumentTypeDeclaration): string {
+  return [
+    `    // For ${declaration.label} documents:`,
+    ...Object.entries(declaration.fields).map(([name, field]) => `    "${name}": ${describeField(name, field)},`),
+  ].join('\n');
+}
+
+/**
+ * Builds LLM prompts from the template files in prompts/<version>/. A file
+ * named <name>.<language>.txt takes precedence over <name>.txt, so a
+ * language only needs its own copy of the templates it wants to change.
+ */
+export class PromptService {
+  private logger: Logger;
+  private settings: PromptSettings;
+  private family: FamilyMember[];
+  private templateCache: Map<string, string> = new Map();
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    this.settings = loadSettings().prompts;
+    this.family = loadSettings().family;
+  }
+
+  getOutputLanguage(filePath: string): string {
+    const workspaces = this.settings.workspaces || {};
+    const workspace = getWorkspaceForPath(filePath, Object.keys(workspaces));
+    return (workspace && workspaces[workspace]) || this.settings.outputLanguage;
+  }
+
+  private async loadTemplate(name: string, language: string): Promise<string> {
+    const template = await this.findTemplate(name, language);
+    if (template === undefined) {
+      throw new Error(`Prompt template ${name} not found in ${path.join(this.settings.directory, this.settings.version)}`);
+    }
+    return template;
+  }
+
+  private async findTemplate(name: string, language: string): Promise<string | undefined> {
+    const cacheKey = `${name}.${language}`;
+    const cached = this.templateCache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const baseDir = path.join(this.settings.directory, this.settings.version);
+    const candidates = [
+      path.join(baseDir, `${name}.${language}.txt`),
+      path.join(baseDir, `${name}.txt`),
+    ];
+
+    for (const candidate of candidates) {
+      try {
+        const template = (await fs.readFile(candidate, 'utf-8')).replace(/\s+$/, '');
+        this.logger.debug(`Loaded prompt template ${candidate}`);
+        this.templateCache.set(cacheKey, template);
+        return template;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Fields part of the extraction prompt for a document type: the prompt of
+   * its declaration, else the template types/<name>, else one generated from
+   * the declared fields
+   */
+  private async getTypeFragment(documentType: DocumentTypeName, language: string): Promise<string> {
+    const declaration = getDocumentTypeDeclaration(documentType);
+    if (declaration?.prompt) {
+      return declaration.prompt;
+    }
+    const template = await this.findTemplate(`types/${documentType}`, language);
+    if (template !== undefined) {
+      return template;
+    }
+    if (!declaration) {
+      throw new Error(`Unknown document type ${documentType}`);
+    }
+    return generateTypeFragment(declaration);
+  }
+
+  private getDocumentTypeNames(): DocumentTypeName[] {
+    return loadDocumentTypes().map(declaration => declaration.name);
+  }
+
+  /**
+   * Prompt for the cheap first stage that only determines the document type
+   */
+  async buildClassificationPrompt(filePath: string, documentTypes: DocumentTypeName[] = this.getDocumentTypeNames()): Promise<string> {
+    const template = await this.loadTemplate('classification', this.getOutputLanguage(filePath));
+    return renderTemplate(template, {
+      original_filename: path.basename(filePath),
+      document_type_descriptions: documentTypes
+        .map(documentType => `- "${documentType}": ${getDocumentTypeDeclaration(documentType)?.description || documentType}`)
+        .join('\n'),
+      document_type_list: documentTypes.join(', '),
+      document_type_options: documentTypes.map(documentType => `"${documentType}"`).join(' | '),
+    });
+  }
+
+  /**
+   * Extraction prompt for the given document types (all types by default),
+   * with earlier corrections (one line each) as hints and the text of the
+   * pages (PDF text layer or OCR), numbered like the images, when it is known
+   */
+  async buildExtractionPrompt(filePath: string, documentTypes: DocumentTypeName[] = this.getDocumentTypeNames(), correctionExamples: string[] = [], pageTexts: PageText[] = []): Promise<string> {
+    const language = this.getOutputLanguage(filePath);
+    const fragments = await Promise.all(
+      documentTypes.map(documentType => this.getTypeFragment(documentType, language))
+    );
+
+    const variables: PromptVariables = {
+      original_filename: path.basename(filePath),
+      output_language: LANGUAGE_NAMES[language] || language,
+      document_type_list: documentTypes.join(', '),
+      document_type_options: documentTypes.map(documentType => `"${documentType}"`).join(' | '),
+      family_members: describeFamilyMembers(this.family),
+    };
+    variables.type_fragments = fragments.map(fragment => renderTemplate(fragment, variables)).join('\n\n');
+    variables.correction_hints = correctionExamples.length > 0
+      ? renderTemplate(await this.loadTemplate('corrections', language), { correction_examples: correctionExamples.join('\n') })
+      : '';
+    // OCR text is a hint next to the images, the PDF text layer can be trusted
+    const textTemplate = pageTexts.some(pageText => pageText.source === 'ocr') ? 'ocr-text' : 'document-text';
+    variables.document_text = pageTexts.length > 0
+      ? renderTemplate(await this.loadTemplate(textTemplate, language), {
+        page_texts: pageTexts.map((pageText, index) => `--- Page ${index + 1} ---\n${pageText.text}`).join('\n'),
+      })
+      : '';
+
+    const template = await this.loadTemplate('extraction', language);
+    return renderTemplate(template, variables).replace(/\s+$/, '');
+  }
+}
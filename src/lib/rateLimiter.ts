@@ -0,0 +1,100 @@
+import { Logger } from './logger';
+import { RateLimitSettings } from './settings';
+
+export interface Reservation {
+  time: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Sliding one-minute window of requests and tokens for one provider. Calls
+ * wait in acquire() until both budgets have room. A rate limit response can
+ * pause the provider for everyone via pauseUntil().
+ */
+export class RateLimiter {
+  private logger: Logger;
+  private name: string;
+  private settings: RateLimitSettings;
+  private reservations: Reservation[] = [];
+  private pausedUntil = 0;
+  // Serializes acquire() so waiting callers are served in order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(name: string, settings: RateLimitSettings, logger: Logger) {
+    this.name = name;
+    this.settings = settings;
+    this.logger = logger;
+  }
+
+  /**
+   * Wait for room in the budgets and reserve estimatedTokens. Pass the
+   * returned reservation to settle() once the actual usage is known.
+   */
+  acquire(estimatedTokens: number): Promise<Reservation> {
+    const result = this.queue.then(() => this.waitForRoom(estimatedTokens));
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  settle(reservation: Reservation, actualTokens: number): void {
+    reservation.tokens = actualTokens;
+  }
+
+  pauseUntil(time: number): void {
+    if (time > this.pausedUntil) {
+      this.pausedUntil = time;
+      this.logger.warn(`Pausing requests to ${this.name} for ${Math.ceil((time - Date.now()) / 1000)}s`);
+    }
+  }
+
+  private async waitForRoom(estimatedTokens: number): Promise<Reservation> {
+    const { requestsPerMinute, tokensPerMinute } = this.settings;
+    // A single request larger than the budget is let through on an empty window
+    const tokens = tokensPerMinute ? Math.min(estimatedTokens, tokensPerMinute) : estimatedTokens;
+
+    for (;;) {
+      const now = Date.now();
+      this.reservations = this.reservations.filter(reservation => reservation.time > now - WINDOW_MS);
+      const usedTokens = this.reservations.reduce((sum, reservation) => sum + reservation.tokens, 0);
+
+      let waitMs = Math.max(0, this.pausedUntil - now);
+      if (requestsPerMinute && this.reservations.length >= requestsPerMinute) {
+        waitMs = Math.max(waitMs, this.reservations[0].time + WINDOW_MS - now);
+      }
+      if (tokensPerMinute && usedTokens + tokens > tokensPerMinute && this.reservations.length > 0) {
+        // Wait until enough of the oldest reservations have left the window
+        let freed = 0;
+        for (const reservation of this.reservations) {
+          freed += reservation.tokens;
+          if (usedTokens - freed + tokens <= tokensPerMinute) {
+            waitMs = Math.max(waitMs, reservation.time + WINDOW_MS - now);
+            break;
+          }
+        }
+      }
+
+      if (waitMs <= 0) {
+        const reservation = { time: now, tokens };
+        this.reservations.push(reservation);
+        return reservation;
+      }
+
+      this.logger.debug(`Rate limit for ${this.name} reached, waiting ${waitMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+}
+
+// Shared by every LlmService instance (each API route creates its own)
+const rateLimiters = new Map<string, RateLimiter>();
+
+export function getRateLimiter(name: string, settings: RateLimitSettings, logger: Logger): RateLimiter {
+  let rateLimiter = rateLimiters.get(name);
+  if (!rateLimiter) {
+    rateLimiter = new RateLimiter(name, settings, logger);
+    rateLimiters.set(name, rateLimiter);
+  }
+  return rateLimiter;
+}
@@ -0,0 +1,246 @@
+import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Logger } from './logger';
+import { OcrResult, OcrService, OcrWord } from './ocrService';
+import { loadSettings, RedactionKind } from './settings';
+
+export interface SensitiveMatch {
+  kind: RedactionKind;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface RedactionResult {
+  path: string;                 // Redacted copy in the temp directory, or the original when nothing was found
+  matches: SensitiveMatch[];
+}
+
+// Checked in this order; a later match overlapping an earlier one is skipped
+const PATTERNS: [RedactionKind, RegExp][] = [
+  ['iban', /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g],
+  ['card', /\b\d(?:[ -]?\d){12,18}\b/g],
+  ['bsn', /\b\d{4}\.?\d{2}\.?\d{3}\b/g],
+  // Dutch postcode, or a street name with a house number
+  ['address', /\b\d{4} ?[A-Z]{2}\b/g],
+  ['address', /\b[A-Za-zÀ-ÿ'.-]+(?:straat|weg|laan|plein|gracht|kade|singel|dijk|pad|hof|steeg|dreef|markt|park|ring|straße|strasse|street|road|avenue|lane)\s+\d+[a-zA-Z]?\b/gi],
+];
+
+const BLUR_SIGMA = 25;
+const BOX_PADDING = 4;
+
+function digitsOf(value: string): number[] {
+  return value.replace(/\D/g, '').split('').map(Number);
+}
+
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const character of rearranged) {
+    const code = /\d/.test(character) ? character : String(character.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function isValidCardNumber(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  // Luhn check
+  const sum = digits.reverse().reduce((total, digit, index) => {
+    if (index % 2 === 0) {
+      return total + digit;
+    }
+    const doubled = digit * 2;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+}
+
+function isValidBsn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 9 || digits.every(digit => digit === 0)) {
+    return false;
+  }
+  // Elfproef: weights 9..2 and -1 for the last digit
+  const sum = digits.reduce((total, digit, index) => total + digit * (index === 8 ? -1 : 9 - index), 0);
+  return sum % 11 === 0;
+}
+
+const VALIDATORS: Partial<Record<RedactionKind, (value: string) => boolean>> = {
+  iban: isValidIban,
+  card: isValidCardNumber,
+  bsn: isValidBsn,
+};
+
+/**
+ * The match itself when it passes the check of its kind, or else the longest
+ * valid part before a space: the patterns also take in a number printed next to it
+ */
+function validPrefix(kind: RedactionKind, value: string): string | undefined {
+  const validate = VALIDATORS[kind];
+  if (!validate) {
+    return value;
+  }
+  for (let candidate = value; candidate; candidate = candidate.slice(0, Math.max(0, candidate.lastIndexOf(' ')))) {
+    if (validate(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the sensitive numbers and addresses of the given kinds in a text.
+ * Address matches cover the whole line, since the street or postcode alone
+ * says too much together with the rest of it.
+ */
+export function findSensitiveData(text: string, kinds: RedactionKind[]): SensitiveMatch[] {
+  const matches: SensitiveMatch[] = [];
+  for (const [kind, pattern] of PATTERNS) {
+    if (!kinds.includes(kind)) {
+      continue;
+    }
+    for (const match of text.matchAll(pattern)) {
+      let start = match.index ?? 0;
+      const value = validPrefix(kind, match[0]);
+      if (value === undefined) {
+        continue;
+      }
+      let end = start + value.length;
+      if (kind === 'address') {
+        start = text.lastIndexOf('\n', start - 1) + 1;
+        end = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+      }
+      if (matches.some(other => start < other.end && end > other.start)) {
+        continue;
+      }
+      matches.push({ kind, start, end, value: text.slice(start, end) });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * For the log: the kind and, for numbers, the last digits only
+ */
+function describeMatch(match: SensitiveMatch): string {
+  return match.kind === 'address' ? 'address' : `${match.kind} ...${match.value.replace(/\s/g, '').slice(-4)}`;
+}
+
+/**
+ * Masks BSN numbers, IBANs, card numbers and addresses before documents are
+ * sent with the shared data key: blurred in the page images (located with
+ * OCR) and replaced in any text sent along
+ */
+export class RedactionService {
+  private logger: Logger;
+  private ocrService: OcrService;
+  private kinds: RedactionKind[];
+  private tempDir: string;
+
+  constructor(logger: Logger, ocrService: OcrService) {
+    this.logger = logger;
+    this.ocrService = ocrService;
+    this.kinds = loadSettings().privacy.redact;
+    this.tempDir = path.join(process.cwd(), 'temp_images');
+  }
+
+  redactText(text: string): { text: string; matches: SensitiveMatch[] } {
+    const matches = findSensitiveData(text, this.kinds);
+    let redacted = text;
+    // Replace from the end so the offsets stay valid
+    for (const match of [...matches].reverse()) {
+      redacted = redacted.slice(0, match.start) + `[${match.kind.toUpperCase()} REMOVED]` + redacted.slice(match.end);
+    }
+    if (matches.length > 0) {
+      this.logger.info(`Redacted ${matches.map(describeMatch).join(', ')} in text`);
+    }
+    return { text: redacted, matches };
+  }
+
+  /**
+   * Blur the words of sensitive data in an image. Pass the OCR result when
+   * the image was recognized already. OCR errors are thrown: without the word
+   * boxes the image cannot be sent.
+   */
+  async redactImage(imagePath: string, ocrResult?: OcrResult): Promise<RedactionResult> {
+    const { words } = ocrResult || await this.ocrService.recognize(imagePath);
+
+    const matches: SensitiveMatch[] = [];
+    const boxes: sharp.Region[] = [];
+    for (const line of groupLines(words)) {
+      // Line text with the character range of every word
+      let lineText = '';
+      const ranges = line.map(word => {
+        const start = lineText.length + (lineText ? 1 : 0);
+        lineText += (lineText ? ' ' : '') + word.text;
+        return { word, start, end: lineText.length };
+      });
+
+      for (const match of findSensitiveData(lineText, this.kinds)) {
+        matches.push(match);
+        ranges
+          .filter(range => range.start < match.end && range.end > match.start)
+          .forEach(range => boxes.push({
+            left: range.word.left - BOX_PADDING,
+            top: range.word.top - BOX_PADDING,
+            width: range.word.width + 2 * BOX_PADDING,
+            height: range.word.height + 2 * BOX_PADDING,
+          }));
+      }
+    }
+
+    if (boxes.length === 0) {
+      return { path: imagePath, matches };
+    }
+
+    const { width = 0, height = 0 } = await sharp(imagePath).metadata();
+    const overlays = await Promise.all(boxes.map(box => clampRegion(box, width, height)).filter(box => box.width > 0 && box.height > 0).map(async box => ({
+      input: await sharp(imagePath).extract(box).blur(BLUR_SIGMA).toBuffer(),
+      left: box.left,
+      top: box.top,
+    })));
+
+    await fs.mkdir(this.tempDir, { recursive: true });
+    const ext = path.extname(imagePath);
+    const tempPath = path.join(this.tempDir, `${path.basename(imagePath, ext)}_redacted_${Date.now()}${ext}`);
+    await sharp(imagePath).composite(overlays).toFile(tempPath);
+
+    this.logger.info(`Redacted ${matches.map(describeMatch).join(', ')} in ${imagePath}`);
+    return { path: tempPath, matches };
+  }
+}
+
+function groupLines(words: OcrWord[]): OcrWord[][] {
+  const lines: OcrWord[][] = [];
+  words.forEach((word, index) => {
+    const previous = words[index - 1];
+    if (previous && previous.block === word.block && previous.paragraph === word.paragraph && previous.line === word.line) {
+      lines[lines.length - 1].push(word);
+    } else {
+      lines.push([word]);
+    }
+  });
+  return lines;
+}
+
+function clampRegion(region: sharp.Region, width: number, height: number): sharp.Region {
+  const left = Math.max(0, region.left);
+  const top = Math.max(0, region.top);
+  return {
+    left,
+    top,
+    width: Math.min(width, region.left + region.width) - left,
+    height: Math.min(height, region.top + region.height) - top,
+  };
+}
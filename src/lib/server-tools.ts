@@ -1,59 +1,457 @@
-import { DocumentData, FileInfo } from '@/types';
-import { LlmService } from './llmService';
-import { PdfService } from './pdfService';
+import { AnalysisInfo, DocumentClassification, DocumentData, DocumentTypeName, FileInfo, PageRange, PageText } from '@/types';
+import { AnalysisAttempt, ExtractedDocument, LlmService } from './llmService';
+import { hasUsableTextLayer, PdfService, selectPages } from './pdfService';
 import { ImageService } from './imageService';
+import { OcrResult, OcrService } from './ocrService';
+import { RedactionService, SensitiveMatch } from './redactionService';
+import { getPrivateOnlyReason, PrivacyError } from './privacy';
+import { StateService } from './stateService';
+import { generateFileName } from './generic-tools';
+import { getSupplierName } from './correctionService';
+import { getDocumentTypeDeclaration, getPagePolicy } from './settings';
+import { isRetryableLater } from './llmErrors';
+import { promises as fs } from 'node:fs';
 import path from 'path';
 
+export interface ProcessFileResult {
+  data: DocumentData;
+  documentType: DocumentTypeName;
+  classification?: DocumentClassification;
+  children?: ExtractedDocument[];   // One entry per document when the file holds more than one
+  analysis?: AnalysisInfo;          // Missing in results cached by earlier versions
+  attempts?: AnalysisAttempt[];     // First attempt, plus the escalated one if any
+  pageTexts?: PageText[];           // Text layer of all pages and OCR text of the analyzed ones, for search
+}
+
+export interface SplitResult {
+  files: FileInfo[];        // Child records that became standalone files
+  parents: FileInfo[];      // Source records that still have children left
+  removedIds: string[];     // Source records removed after their last child was split off
+}
+
 // Helper functions
-export async function processFile(file: FileInfo, pdfService: PdfService, llmService: LlmService, imageService: ImageService): Promise<{ data: DocumentData, documentType: string } | null> {
-    let imagePaths: string[] = [];
-    let rescaledImagePaths: string[] = [];
+
+/**
+ * Analyze a file in two stages: a cheap classification of the first page at
+ * low resolution, then a focused extraction for the detected document type.
+ * Pass documentType to skip the classification, e.g. when a wrongly
+ * classified file is corrected by hand. When the extraction matches an
+ * escalation rule, the same pages are sent to the stronger provider.
+ * Long PDFs are cut down to the pages the page policy of the document type
+ * selects, and the images to its pixel budget. When those pages have a
+ * usable text layer, the text is sent instead of the images; otherwise the
+ * images can get a local OCR pass whose text is added as a hint. Anything
+ * sent with the shared data key is redacted first.
+ */
+export async function processFile(file: FileInfo, pdfService: PdfService, llmService: LlmService, imageService: ImageService, ocrService: OcrService, redactionService: RedactionService, documentType?: DocumentTypeName): Promise<ProcessFileResult | null> {
+    // Page number -> rendered (or original) image
+    const pageImages = new Map<number, string>();
+    const tempImagePaths: string[] = [];
+    // Everything masked before sending with the shared data key
+    const redactions: SensitiveMatch[] = [];
+    let thumbnailPath: string | null = null;
+    // Render the given pages that have not been rendered yet
+    const renderPages = async (pages: number[]): Promise<void> => {
+        const pagesToRender = pages.filter(page => !pageImages.has(page));
+        if (file.type !== 'pdf' || pagesToRender.length === 0) {
+            return;
+        }
+        const renderedImages = await pdfService.convertPdfToImages(file.currentPath, true, pagesToRender);
+        if (renderedImages.length !== pagesToRender.length) {
+            throw new Error(`Expected ${pagesToRender.length} page images for ${file.currentPath}, got ${renderedImages.length}`);
+        }
+        pagesToRender.forEach((page, index) => pageImages.set(page, renderedImages[index]));
+    };
     try {
-        // Always convert PDFs to images
+        let pageCount = 1;
+        let pageTexts: PageText[] | undefined;
         if (file.type === 'pdf') {
-            imagePaths = await pdfService.convertPdfToImages(file.currentPath);
+            pageCount = await pdfService.getPageCount(file.currentPath);
+            pageTexts = await extractTextLayer(file.currentPath, pdfService);
+            // Classification only needs the first page
+            if (!documentType) {
+                await renderPages([1]);
+            }
         } else {
             // For image files, ensure they're in a supported format
             const ext = path.extname(file.currentPath).toLowerCase();
             if (['.png', '.jpg', '.jpeg', '.gif', '.webp'].includes(ext)) {
-                imagePaths = [file.currentPath];
+                pageImages.set(1, file.currentPath);
             } else {
                 throw new Error(`Unsupported image format: ${ext}. Supported formats are: png, jpg, jpeg, gif, webp`);
             }
         }
 
-        if (imagePaths.length === 0) {
-            throw new Error('No valid images found to process');
+        let classification: DocumentClassification | undefined;
+        if (documentType) {
+            classification = {
+                documentType,
+                confidence: 'high',
+                // Keep the supplier from the earlier analysis to find learned corrections
+                supplier: getSupplierName(file.documentType, file.data) || undefined,
+                corrected: true,
+                timestamp: new Date().toISOString(),
+            };
+        } else if (file.status === 'new' && file.classification) {
+            // Classified on an earlier run whose extraction was refused as private-only
+            classification = file.classification;
+        } else if (pageImages.has(1)) {
+            let firstPageImage = pageImages.get(1)!;
+            if (llmService.isSharedKeyProvider(llmService.getProvider(file.currentPath))) {
+                assertMaySendShared(file.currentPath);
+                const redacted = await redactForSharing([firstPageImage], file.currentPath, ocrService, redactionService);
+                redactions.push(...redacted.matches);
+                tempImagePaths.push(...redacted.paths.filter(p => p !== firstPageImage));
+                firstPageImage = redacted.paths[0];
+            }
+            try {
+                thumbnailPath = await imageService.createThumbnail(firstPageImage);
+                classification = await llmService.classifyDocument(file.currentPath, thumbnailPath);
+            } catch (error) {
+                // Rate limits and quota problems would fail the extraction too
+                if (isRetryableLater(error)) {
+                    throw error;
+                }
+                // Fall back to a single prompt covering all document types
+                console.warn(`Classification failed for ${file.currentPath}, extracting without type: ${error}`);
+            }
+        }
+
+        // Only the pages the policy of the document type asks for are rendered and sent
+        const pagePolicy = getPagePolicy(classification?.documentType);
+        const pages = selectPages(pageCount, pagePolicy);
+        if (pages.length < pageCount) {
+            console.log(`Analyzing ${pages.length} of ${pageCount} pages of ${file.currentPath}: ${pages.join(', ')}`);
+        }
+
+        // With the shared data key (for the extraction or a possible escalation) private-only
+        // documents are refused and everything sent is redacted
+        const escalationProvider = llmService.getEscalationProvider();
+        const sendsShared = [llmService.getProvider(file.currentPath, classification?.documentType), escalationProvider]
+            .some(provider => provider && llmService.isSharedKeyProvider(provider));
+        if (sendsShared) {
+            assertMaySendShared(file.currentPath, classification?.documentType, classification);
+        }
+
+        // Born-digital PDFs: send the exact text instead of the page images
+        const selectedTexts = pages.map(page => pageTexts?.[page - 1]).filter((t): t is PageText => !!t);
+        const useTextLayer = pagePolicy.textLayer !== 'off' && selectedTexts.length === pages.length && hasUsableTextLayer(selectedTexts);
+
+        let processedImagePaths: string[] = [];
+        let ocrTexts: PageText[] | undefined;
+        if (useTextLayer) {
+            // No thumbnail with the shared data key, the text is enough
+            if (pagePolicy.textLayer === 'text+thumbnail' && !sendsShared) {
+                if (!thumbnailPath) {
+                    await renderPages([1]);
+                    thumbnailPath = await imageService.createThumbnail(pageImages.get(1)!);
+                }
+                processedImagePaths = [thumbnailPath];
+            }
+        } else {
+            await renderPages(pages);
+            const imagePaths = pages.map(page => pageImages.get(page)).filter((p): p is string => !!p);
+            if (imagePaths.length === 0) {
+                throw new Error('No valid images found to process');
+            }
+
+            // Rescale images if they exceed 300 DPI
+            const rescaledImagePaths = await imageService.rescaleImagesIfNeeded(imagePaths);
+
+            // OCR the full resolution images: the model gets the text as a hint, the
+            // redaction needs the word boxes
+            let ocrResults: OcrResult[] | undefined;
+            let sendImagePaths = rescaledImagePaths;
+            if (sendsShared) {
+                const redacted = await redactForSharing(rescaledImagePaths, file.currentPath, ocrService, redactionService);
+                ocrResults = redacted.ocrResults;
+                sendImagePaths = redacted.paths;
+                redactions.push(...redacted.matches);
+            } else if (ocrService.isEnabled()) {
+                try {
+                    ocrResults = await recognizeImages(rescaledImagePaths, ocrService);
+                } catch (error) {
+                    console.warn(`OCR failed for ${file.currentPath}, extracting without OCR text: ${error}`);
+                }
+            }
+            if (ocrService.isEnabled() && ocrResults) {
+                ocrTexts = ocrResults.map((ocrResult, index) => ({ page: pages[index], text: ocrResult.text, source: 'ocr' as const }));
+                pageTexts = mergePageTexts(pageTexts, ocrTexts);
+            }
+
+            // Fit the images in the pixel budget
+            processedImagePaths = pagePolicy.maxPixels
+                ? await Promise.all(sendImagePaths.map(p => imageService.limitPixels(p, pagePolicy.maxPixels!)))
+                : sendImagePaths;
+
+            // Track which images are temporary copies (those different from original)
+            tempImagePaths.push(...new Set([...rescaledImagePaths, ...sendImagePaths, ...processedImagePaths].filter(p => !imagePaths.includes(p))));
+        }
+
+        // The record keeps the original text, the model gets the redacted one
+        let promptTexts = useTextLayer ? selectedTexts : ocrTexts;
+        if (sendsShared && promptTexts) {
+            promptTexts = promptTexts.map(pageText => {
+                const redacted = redactionService.redactText(pageText.text);
+                redactions.push(...redacted.matches);
+                return { ...pageText, text: redacted.text };
+            });
         }
 
-        // Rescale images if they exceed 300 DPI
-        const processedImagePaths = await imageService.rescaleImagesIfNeeded(imagePaths);
-        
-        // Track which images were rescaled (those different from original)
-        rescaledImagePaths = processedImagePaths.filter((p, index) => 
-            p !== imagePaths[index]
-        );
+        const extractionOptions = {
+            documentType: classification?.documentType,
+            supplier: classification?.supplier,
+            detail: pagePolicy.detail,
+            pageTexts: promptTexts,
+            pageCount: pages.length,
+        };
+        const firstAttempt: AnalysisAttempt = {
+            ...await llmService.extractDocumentData(file.currentPath, processedImagePaths, extractionOptions),
+            timestamp: new Date().toISOString(),
+        };
+        const attempts = [firstAttempt];
 
-        const invoiceDataArray = await llmService.extractDocumentData(file.currentPath, processedImagePaths);
-        const data = invoiceDataArray[0];
-        
-        // Determine document type from the data
-        let documentType = 'invoice'; // default
-        if ('movie_title' in data && data.movie_title) {
-            documentType = 'movie_cover';
-        } else if ('document_category' in data && data.document_category) {
-            documentType = 'generic';
+        const escalationReasons = llmService.getEscalationReasons(firstAttempt.documents);
+        if (escalationReasons.length > 0 && escalationProvider && escalationProvider.name !== firstAttempt.provider) {
+            firstAttempt.escalationReasons = escalationReasons;
+            console.log(`Escalating ${file.currentPath} to ${escalationProvider.name}: ${escalationReasons.join(', ')}`);
+            try {
+                attempts.push({
+                    ...await llmService.extractDocumentData(file.currentPath, processedImagePaths, { ...extractionOptions, providerName: escalationProvider.name }),
+                    timestamp: new Date().toISOString(),
+                });
+            } catch (error) {
+                // Keep the first answer rather than failing the file
+                console.warn(`Escalation failed for ${file.currentPath}, keeping first attempt: ${error}`);
+            }
         }
-        
-        return { data, documentType };
+
+        const finalAttempt = attempts[attempts.length - 1];
+        const extracted = finalAttempt.documents;
+        const { data, documentType: extractedType } = extracted[0];
+        const analysis: AnalysisInfo = {
+            provider: finalAttempt.provider,
+            model: finalAttempt.model,
+            escalated: attempts.length > 1,
+            escalationReasons: firstAttempt.escalationReasons,
+            pages,
+            pageCount,
+            textLayer: useTextLayer,
+            ocr: !!ocrTexts,
+            redactions: redactions.length > 0 ? countRedactions(redactions) : undefined,
+            timestamp: finalAttempt.timestamp,
+        };
+
+        // Several documents in one scan become child records; the source keeps the first
+        const children = extracted.length > 1
+            ? extracted.map(document => ({ ...document, pageRange: toSourcePageRange(document.pageRange, pages) }))
+            : undefined;
+
+        return { data, documentType: extractedType, classification, children, analysis, attempts, pageTexts };
     } finally {
         // Cleanup PDF temp images
         if (file.type === 'pdf') {
-            await pdfService.cleanupTempImages(imagePaths);
+            await pdfService.cleanupTempImages([...pageImages.values()]);
+        }
+        // Cleanup rescaled images and the classification thumbnail
+        if (thumbnailPath) {
+            tempImagePaths.push(thumbnailPath);
+        }
+        if (tempImagePaths.length > 0) {
+            await imageService.cleanupTempImages(tempImagePaths);
+        }
+    }
+}
+
+/**
+ * Text layer of a PDF, or undefined when pdfjs cannot read it; the file is
+ * then analyzed from its images only
+ */
+async function extractTextLayer(pdfPath: string, pdfService: PdfService): Promise<PageText[] | undefined> {
+    try {
+        return await pdfService.extractText(pdfPath);
+    } catch (error) {
+        console.warn(`Could not read the text layer of ${pdfPath}: ${error}`);
+        return undefined;
+    }
+}
+
+async function recognizeImages(imagePaths: string[], ocrService: OcrService): Promise<OcrResult[]> {
+    const ocrResults: OcrResult[] = [];
+    for (const imagePath of imagePaths) {
+        ocrResults.push(await ocrService.recognize(imagePath));
+    }
+    return ocrResults;
+}
+
+/**
+ * Refuse private-only documents (by folder, and by type once it is known)
+ * for a provider with the shared data key
+ */
+function assertMaySendShared(filePath: string, documentType?: DocumentTypeName, classification?: DocumentClassification): void {
+    const reason = getPrivateOnlyReason(filePath, documentType);
+    if (reason) {
+        throw new PrivacyError(`Not sent with the shared data key: ${reason}`, classification);
+    }
+}
+
+/**
+ * Blur the sensitive data in images before sending them with the shared data
+ * key. Without OCR the data cannot be found, so nothing is sent then.
+ */
+async function redactForSharing(imagePaths: string[], filePath: string, ocrService: OcrService, redactionService: RedactionService): Promise<{ paths: string[]; matches: SensitiveMatch[]; ocrResults: OcrResult[] }> {
+    let ocrResults: OcrResult[];
+    try {
+        ocrResults = await recognizeImages(imagePaths, ocrService);
+    } catch (error) {
+        throw new PrivacyError(`Not sent with the shared data key, redaction of ${path.basename(filePath)} failed: ${error}`);
+    }
+
+    const paths: string[] = [];
+    const matches: SensitiveMatch[] = [];
+    for (let index = 0; index < imagePaths.length; index++) {
+        const redacted = await redactionService.redactImage(imagePaths[index], ocrResults[index]);
+        paths.push(redacted.path);
+        matches.push(...redacted.matches);
+    }
+    return { paths, matches, ocrResults };
+}
+
+function countRedactions(matches: SensitiveMatch[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const match of matches) {
+        counts[match.kind] = (counts[match.kind] || 0) + 1;
+    }
+    return counts;
+}
+
+/**
+ * Text per page for the record: the PDF text layer where that page has a
+ * usable one, OCR text otherwise
+ */
+function mergePageTexts(pdfTexts: PageText[] | undefined, ocrTexts: PageText[] | undefined): PageText[] | undefined {
+    if (!ocrTexts) {
+        return pdfTexts;
+    }
+    const merged = new Map((pdfTexts || []).map(pageText => [pageText.page, pageText]));
+    for (const ocrText of ocrTexts) {
+        const pdfText = merged.get(ocrText.page);
+        if (!pdfText || !hasUsableTextLayer([pdfText])) {
+            merged.set(ocrText.page, ocrText);
+        }
+    }
+    return [...merged.values()].sort((a, b) => a.page - b.page);
+}
+
+/**
+ * The model numbers the images it was sent from 1; map such a range to the
+ * pages of the file those images were rendered from
+ */
+function toSourcePageRange(pageRange: PageRange | undefined, pages: number[]): PageRange {
+    const from = Math.min(pageRange?.from ?? 1, pages.length);
+    const to = Math.min(Math.max(pageRange?.to ?? pages.length, from), pages.length);
+    return { from: pages[from - 1], to: pages[to - 1] };
+}
+
+/**
+ * Return basePath, or basePath with _1, _2, ... appended when that file exists
+ * or is already used in the current batch
+ */
+export async function generateUniquePath(basePath: string, usedPaths?: Set<string>): Promise<string> {
+    // Check if the file already exists or is already used in this batch
+    const isPathAvailable = async (path: string): Promise<boolean> => {
+        // Check if used in batch
+        if (usedPaths && usedPaths.has(path)) {
+            return false;
         }
-        // Cleanup rescaled images
-        if (rescaledImagePaths.length > 0) {
-            await imageService.cleanupTempImages(rescaledImagePaths);
+        // Check if exists on disk
+        try {
+            await fs.access(path);
+            return false; // File exists
+        } catch {
+            return true; // File doesn't exist
         }
+    };
+
+    // Check if base path is available
+    if (await isPathAvailable(basePath)) {
+        return basePath;
+    }
+
+    // Extract directory, filename without extension, and extension
+    const dirPath = basePath.substring(0, basePath.lastIndexOf('/'));
+    const filename = basePath.split('/').pop() || '';
+    const ext = filename.split('.').pop() || '';
+    const nameWithoutExt = filename.substring(0, filename.lastIndexOf('.'));
+
+    // Find a unique filename by adding an index
+    let index = 1;
+    let uniquePath: string;
+
+    do {
+        uniquePath = `${dirPath}/${nameWithoutExt}_${index}.${ext}`;
+        if (await isPathAvailable(uniquePath)) {
+            break; // Found available path
+        }
+        index++;
+    } while (index < 1000); // Prevent infinite loop
+
+    return uniquePath;
+}
+
+/**
+ * Write a child record to a file of its own (its pages for a PDF source, a
+ * copy of the scan for an image) and turn it into a standalone record. When
+ * the last child is split off, the source file is renamed to _delete_<name>,
+ * like merged files, and its record removed. The caller saves the state.
+ */
+export async function splitChildRecord(child: FileInfo, newPath: string, stateService: StateService, pdfService: PdfService): Promise<SplitResult> {
+    const parent = child.parentId ? stateService.getFileById(child.parentId) : undefined;
+    if (!parent) {
+        throw new Error(`Source file of ${child.id} not found`);
+    }
+
+    if (parent.type === 'pdf' && child.pageRange) {
+        await pdfService.extractPages(parent.currentPath, child.pageRange, newPath);
+    } else {
+        await fs.copyFile(parent.currentPath, newPath);
     }
-} 
\ No newline at end of file
+
+    // Page numbers of the new file start at 1
+    const firstPage = child.pageRange?.from ?? 1;
+    child.pageTexts = child.pageTexts?.map(pageText => ({ ...pageText, page: pageText.page - firstPage + 1 }));
+    child.currentPath = newPath;
+    child.parentId = undefined;
+    child.pageRange = undefined;
+    stateService.markFileModified(child.id);
+
+    parent.childIds = (parent.childIds || []).filter(id => id !== child.id);
+    if (parent.childIds.length > 0) {
+        stateService.markFileModified(parent.id);
+        return { files: [child], parents: [parent], removedIds: [] };
+    }
+
+    const fileDir = path.dirname(parent.currentPath);
+    const deletePath = path.join(fileDir, `_delete_${path.basename(parent.currentPath)}`);
+    await fs.rename(parent.currentPath, deletePath);
+    stateService.removeFileById(parent.id);
+    return { files: [child], parents: [], removedIds: [parent.id] };
+}
+
+/**
+ * Split every child record of a source file into a file of its own, named
+ * after its data
+ */
+export async function splitSourceFile(parent: FileInfo, stateService: StateService, pdfService: PdfService, usedPaths: Set<string> = new Set()): Promise<SplitResult> {
+    const result: SplitResult = { files: [], parents: [], removedIds: [] };
+
+    for (const child of stateService.getChildRecords(parent.id)) {
+        const newPath = await generateUniquePath(generateFileName(child, getDocumentTypeDeclaration(child.documentType)), usedPaths);
+        usedPaths.add(newPath);
+        const childResult = await splitChildRecord(child, newPath, stateService, pdfService);
+        result.files.push(...childResult.files);
+        result.removedIds.push(...childResult.removedIds);
+    }
+
+    return result;
+}
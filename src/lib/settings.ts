@@ -0,0 +1,335 @@
+import { readFileSync } from 'node:fs';
+import { env } from 'node:process';
+import path from 'path';
+import { DocumentType } from '@/types';
+import { BUILT_IN_DOCUMENT_TYPES, DocumentTypeDeclaration, FIELD_TYPES, FieldSchema, findDocumentType, getTemplateFields } from './documentTypes';
+
+export type LlmProviderType = 'openai' | 'openai-compatible' | 'ollama' | 'mock';
+
+export interface RateLimitSettings {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface LlmProviderSettings {
+  type: LlmProviderType;
+  model?: string;
+  baseUrl?: string;
+  // Name of the environment variable that holds the API key, so keys stay out of the settings file
+  apiKeyEnv?: string;
+  // Mock provider only: file with the raw response to return
+  responseFile?: string;
+  // Budgets shared by all requests to this provider
+  rateLimit?: RateLimitSettings;
+}
+
+export interface EscalationSettings {
+  provider: string;                 // Stronger provider for the second attempt
+  confidence?: string[];            // Escalate on these overall confidence levels, e.g. ["low"]
+  extractionStatus?: string[];      // Escalate on these extraction statuses, e.g. ["partial", "failed"]
+  missingRequiredFields?: boolean;  // Escalate when required fields are empty (see hasCompleteData)
+  totalsMismatch?: boolean;         // Escalate when invoice lines or VAT amounts do not add up (see checkInvoiceTotals)
+}
+
+export interface FixtureSettings {
+  // record: store every response; replay: serve the stored responses, without network access
+  mode: 'record' | 'replay';
+  directory?: string;               // Default fixtures/llm
+}
+
+export interface LlmSettings {
+  defaultProvider: string;
+  providers: Record<string, LlmProviderSettings>;
+  // Scan folder (as listed in FOLDERS) -> provider name
+  workspaces?: Record<string, string>;
+  // Document type -> provider name, takes precedence over the workspace
+  documentTypes?: Record<string, string>;
+  // Re-run the extraction with a stronger provider when a rule matches
+  escalation?: EscalationSettings;
+  // Record LLM responses, or replay them for deterministic runs
+  fixtures?: FixtureSettings;
+}
+
+export interface PromptSettings {
+  version: string;            // Subdirectory of the prompts directory, e.g. "v1"
+  directory: string;
+  outputLanguage: string;     // Language code (nl, de, en, ...) or name
+  // Scan folder (as listed in FOLDERS) -> output language
+  workspaces?: Record<string, string>;
+}
+
+export interface CorrectionSettings {
+  maxExamples: number;        // Corrected examples added to an extraction prompt
+  maxExampleTokens: number;   // Rough token budget for those examples, 0 disables them
+}
+
+export type ImageDetail = 'low' | 'high' | 'auto';
+
+export interface PagePolicy {
+  firstPages?: number;        // Analyze the first N pages...
+  lastPages?: number;         // ...plus the last N pages. Without either, all pages are analyzed.
+  maxPixels?: number;         // Downscale page images above this many pixels (width x height)
+  detail?: ImageDetail;       // Image detail requested from the vision API (OpenAI only)
+  // Use the text layer of born-digital PDFs instead of page images: "text" sends only
+  // the text, "text+thumbnail" adds a small image of the first page, "off" always sends images
+  textLayer?: 'off' | 'text' | 'text+thumbnail';
+}
+
+export interface PageSettings extends PagePolicy {
+  // Document type -> policy, overriding the defaults above
+  documentTypes?: Record<string, PagePolicy>;
+}
+
+export interface OcrSettings {
+  enabled: boolean;           // Run tesseract on the page images and add its text to the prompt
+  languages: string;          // Tesseract languages, e.g. "nld+eng"
+  command: string;            // Path of the tesseract executable
+  timeoutMs: number;          // Per page
+}
+
+export type RedactionKind = 'bsn' | 'iban' | 'card' | 'address';
+
+export interface PrivacySettings {
+  // Never sent to a provider that uses the shared data key
+  privateDocumentTypes: string[];
+  privateFolders: string[];     // Scan folders as listed in FOLDERS
+  redact: RedactionKind[];      // Masked before anything is sent with the shared data key
+}
+
+// Known names for the children's drawings
+export interface FamilyMember {
+  name: string;
+  birthDate?: string;         // YYYYMMDD, to compute the age at the time of a drawing
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface Settings {
+  llm: LlmSettings;
+  prompts: PromptSettings;
+  corrections: CorrectionSettings;
+  pages: PageSettings;
+  ocr: OcrSettings;
+  privacy: PrivacySettings;
+  family: FamilyMember[];
+  // Model name (or prefix) -> price, added to the built-in price table
+  prices: Record<string, ModelPrice>;
+}
+
+let cachedSettings: Settings | null = null;
+
+/**
+ * Provider settings used when there is no settings file, mirroring the
+ * USEEXTERNAL / EXTERNALURL environment variables of earlier versions
+ */
+function getLegacyLlmSettings(): LlmSettings {
+  if (env.USEEXTERNAL === 'true') {
+    return {
+      defaultProvider: 'external',
+      providers: {
+        external: {
+          type: 'openai-compatible',
+          model: env.EXTERNAL_MODEL_NAME || 'ollama/gemma3:12b',
+          baseUrl: env.EXTERNALURL || '',
+          apiKeyEnv: 'EXTERNALKEY',
+        },
+      },
+    };
+  }
+
+  return {
+    defaultProvider: 'openai',
+    providers: {
+      openai: {
+        type: 'openai',
+        model: env.OPENAI_MODEL_NAME || 'gpt-4-vision-preview',
+        apiKeyEnv: 'OPENAI_API_KEY',
+      },
+    },
+  };
+}
+
+export function getSettingsPath(): string {
+  return env.SETTINGS_FILE || path.join(process.cwd(), 'config', 'settings.json');
+}
+
+/**
+ * Load config/settings.json (or SETTINGS_FILE). Missing sections fall back to
+ * the environment based defaults. The result is cached for the process lifetime.
+ */
+export function loadSettings(): Settings {
+  if (cachedSettings) {
+    return cachedSettings;
+  }
+
+  let fileSettings: Partial<Settings> = {};
+  try {
+    fileSettings = JSON.parse(readFileSync(getSettingsPath(), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Invalid settings file ${getSettingsPath()}: ${error}`);
+    }
+  }
+
+  cachedSettings = {
+    llm: fileSettings.llm || getLegacyLlmSettings(),
+    prompts: {
+      version: 'v1',
+      directory: path.join(process.cwd(), 'prompts'),
+      outputLanguage: 'nl',
+      ...fileSettings.prompts,
+    },
+    corrections: {
+      maxExamples: 5,
+      maxExampleTokens: 300,
+      ...fileSettings.corrections,
+    },
+    pages: {
+      firstPages: 10,
+      lastPages: 1,
+      maxPixels: 2_500_000,
+      detail: 'high',
+      textLayer: 'text+thumbnail',
+      ...fileSettings.pages,
+    },
+    ocr: {
+      enabled: false,
+      languages: 'eng',
+      command: 'tesseract',
+      timeoutMs: 60_000,
+      ...fileSettings.ocr,
+    },
+    privacy: {
+      privateDocumentTypes: [],
+      privateFolders: [],
+      redact: ['bsn', 'iban', 'card', 'address'],
+      ...fileSettings.privacy,
+    },
+    family: fileSettings.family || [],
+    prices: fileSettings.prices || {},
+  };
+  return cachedSettings;
+}
+
+/**
+ * Page policy for a document type: the type specific settings over the defaults
+ */
+export function getPagePolicy(documentType?: string): PagePolicy {
+  const { documentTypes, ...defaults } = loadSettings().pages;
+  return { ...defaults, ...(documentType && documentTypes?.[documentType]) };
+}
+
+export function getDocumentTypesPath(): string {
+  return env.DOCUMENT_TYPES_FILE || path.join(process.cwd(), 'config', 'document-types.json');
+}
+
+let cachedDocumentTypes: DocumentTypeDeclaration[] | null = null;
+
+function checkFieldSchema(field: string, schema: FieldSchema, inList = false): void {
+  if (!FIELD_TYPES.includes(schema?.type) || (inList && schema.type === 'list')) {
+    throw new Error(`field ${field} has an unknown type ${schema?.type}`);
+  }
+  if (schema.type === 'enum' && !(Array.isArray(schema.values) && schema.values.length > 0)) {
+    throw new Error(`enum field ${field} needs a list of values`);
+  }
+  if (schema.type === 'list') {
+    if (!schema.items || Object.keys(schema.items).length === 0) {
+      throw new Error(`list field ${field} needs items`);
+    }
+    Object.entries(schema.items).forEach(([item, itemSchema]) => checkFieldSchema(`${field}.${item}`, itemSchema, true));
+  }
+}
+
+/**
+ * Check a declaration from the document types file; throws on the first problem
+ */
+function checkDocumentTypeDeclaration(name: string, declaration: Omit<DocumentTypeDeclaration, 'name'>): DocumentTypeDeclaration {
+  if (!/^[a-z][a-z0-9_]*$/.test(name)) {
+    throw new Error('names may only contain lowercase letters, digits and underscores');
+  }
+  if (findDocumentType(BUILT_IN_DOCUMENT_TYPES, name)) {
+    throw new Error('a built-in type has this name');
+  }
+  if (typeof declaration?.description !== 'string' || declaration.description.trim() === '') {
+    throw new Error('description is required');
+  }
+  if (!declaration.fields || Object.keys(declaration.fields).length === 0) {
+    throw new Error('fields are required');
+  }
+  Object.entries(declaration.fields).forEach(([field, schema]) => checkFieldSchema(field, schema));
+
+  let templateFields: string[];
+  try {
+    templateFields = getTemplateFields(declaration.filenameTemplate || '');
+  } catch (error) {
+    throw new Error(`filenameTemplate is invalid: ${error instanceof Error ? error.message : error}`);
+  }
+  for (const field of templateFields) {
+    if (!declaration.fields[field]) {
+      throw new Error(`filenameTemplate uses unknown field ${field}`);
+    }
+  }
+  if (declaration.supplierField && !declaration.fields[declaration.supplierField]) {
+    throw new Error(`supplierField ${declaration.supplierField} is not a field`);
+  }
+
+  return {
+    ...declaration,
+    name,
+    label: declaration.label || name.replace(/_/g, ' '),
+  };
+}
+
+/**
+ * The built-in document types plus the ones declared in
+ * config/document-types.json (or DOCUMENT_TYPES_FILE), which go before the
+ * generic type. The result is cached for the process lifetime.
+ */
+export function loadDocumentTypes(): DocumentTypeDeclaration[] {
+  if (cachedDocumentTypes) {
+    return cachedDocumentTypes;
+  }
+
+  let declarations: Record<string, Omit<DocumentTypeDeclaration, 'name'>> = {};
+  try {
+    declarations = JSON.parse(readFileSync(getDocumentTypesPath(), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Invalid document types file ${getDocumentTypesPath()}: ${error}`);
+    }
+  }
+
+  const customTypes = Object.entries(declarations).map(([name, declaration]) => {
+    try {
+      return checkDocumentTypeDeclaration(name, declaration);
+    } catch (error) {
+      throw new Error(`Invalid document type ${name} in ${getDocumentTypesPath()}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  const builtInTypes = BUILT_IN_DOCUMENT_TYPES.filter(documentType => documentType.name !== DocumentType.GENERIC);
+  cachedDocumentTypes = [...builtInTypes, ...customTypes, findDocumentType(BUILT_IN_DOCUMENT_TYPES, DocumentType.GENERIC)!];
+  return cachedDocumentTypes;
+}
+
+export function getDocumentTypeDeclaration(name: string): DocumentTypeDeclaration | undefined {
+  return findDocumentType(loadDocumentTypes(), name);
+}
+
+export function getScanFolders(): string[] {
+  return (env.FOLDERS?.split(',') || []).map(folder => folder.trim()).filter(Boolean);
+}
+
+/**
+ * Find the workspace (scan folder) a file belongs to. When folders are nested,
+ * the most specific one wins.
+ */
+export function getWorkspaceForPath(filePath: string, workspaces: string[] = getScanFolders()): string | undefined {
+  const absolutePath = path.resolve(filePath);
+  return workspaces
+    .filter(folder => absolutePath.startsWith(path.resolve(folder) + path.sep))
+    .sort((a, b) => path.resolve(b).length - path.resolve(a).length)[0];
+}
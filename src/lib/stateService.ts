@@ -1,7 +1,10 @@
 import { Logger } from './logger';
-import { State, FileInfo, MovieCoverData, GenericDocumentData, InvoiceData } from '@/types';
+import { State, FileInfo } from '@/types';
 import { promises as fs } from 'node:fs';
 import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { ExtractedDocument } from './llmService';
+import { getMissingRequiredFields } from './documentSchemas';
 
 export class StateService {
   private logger: Logger;
@@ -219,10 +222,61 @@ export class StateService {
   }
 
   removeFileById(id: string): void {
-    this.state.knownFiles = this.state.knownFiles.filter(file => file.id !== id);
+    // Child records only exist as part of their source file
+    this.state.knownFiles = this.state.knownFiles.filter(file => file.id !== id && file.parentId !== id);
     this.logger.debug(`Removed file with ID: ${id}`);
   }
 
+  getChildRecords(parentId: string): FileInfo[] {
+    return this.state.knownFiles
+      .filter(file => file.parentId === parentId)
+      .sort((a, b) => (a.pageRange?.from ?? 0) - (b.pageRange?.from ?? 0));
+  }
+
+  /**
+   * Replace the child records of a file with one record per detected document.
+   * Children point at the source file's path, so they bypass the known-path
+   * check of createFileInfo.
+   */
+  setChildRecords(parent: FileInfo, documents: ExtractedDocument[]): FileInfo[] {
+    this.removeChildRecords(parent);
+
+    const now = new Date().toISOString();
+    const children: FileInfo[] = documents.map(document => ({
+      id: uuidv4(),
+      originalPath: parent.currentPath,
+      currentPath: parent.currentPath,
+      data: document.data,
+      extractedData: document.data,
+      timestamp: now,
+      lastModified: now,
+      status: 'analyzed',
+      type: parent.type,
+      documentType: document.documentType,
+      parentId: parent.id,
+      pageRange: document.pageRange,
+      pageTexts: parent.pageTexts?.filter(pageText =>
+        !document.pageRange || (pageText.page >= document.pageRange.from && pageText.page <= document.pageRange.to)
+      ),
+    }));
+
+    this.state.knownFiles.push(...children);
+    parent.childIds = children.map(child => child.id);
+    this.markFileModified(parent.id);
+    this.logger.debug(`Added ${children.length} child records for: ${parent.currentPath}`);
+    return children;
+  }
+
+  removeChildRecords(parent: FileInfo): void {
+    if (!parent.childIds?.length && !this.state.knownFiles.some(file => file.parentId === parent.id)) {
+      return;
+    }
+    this.state.knownFiles = this.state.knownFiles.filter(file => file.parentId !== parent.id);
+    parent.childIds = undefined;
+    this.markFileModified(parent.id);
+    this.logger.debug(`Removed child records of: ${parent.currentPath}`);
+  }
+
   async createFileInfo(file: FileInfo, saveImmediately: boolean = true): Promise<void> {
     if(this.isFileKnown(file.currentPath)) {
       this.logger.debug(`File already known: ${file.currentPath}`);
@@ -263,63 +317,16 @@ export class StateService {
   }
 
   hasCompleteData(fileInfo: FileInfo): boolean {
-    const missingData = [];
-    
     if (!fileInfo.data) {
       console.log(`${fileInfo.currentPath} has no data at all`);
       return false;
     }
 
-    // Check based on document type
-    switch (fileInfo.documentType) {
-      case 'invoice': {
-        const data = fileInfo.data as InvoiceData;
-        if (!data.invoice_date || data.invoice_date === '') {
-      missingData.push("invoice_date");
-    }
-        if (!data.company_name || data.company_name === '') {
-      missingData.push("company_name");
-    }
-        if (!data.description || data.description === '') {
-      missingData.push("description");
-    }
-        if (!data.invoice_amount || data.invoice_amount === '') {
-      missingData.push("invoice_amount");
-        }
-        break;
-      }
-
-      case 'movie_cover': {
-        const data = fileInfo.data as MovieCoverData;
-        if (!data.movie_title || data.movie_title === '') {
-          missingData.push("movie_title");
-        }
-        if (!data.type) {
-          missingData.push("type");
-        }
-        if (!data.media_format) {
-          missingData.push("media_format");
-        }
-        break;
-      }
-
-      case 'generic': {
-        const data = fileInfo.data as GenericDocumentData;
-        if (!data.document_date || data.document_date === '') {
-          missingData.push("document_date");
-        }
-        if (!data.document_category || data.document_category === '') {
-          missingData.push("document_category");
-        }
-        if (!data.description || data.description === '') {
-          missingData.push("description");
-        }
-        break;
-      }
-
-      default:
-        console.log(`${fileInfo.currentPath} has unknown document type: ${fileInfo.documentType}`);
-        return false;
+    // Required fields are defined per document type in the schemas
+    const missingData = getMissingRequiredFields(fileInfo.documentType, fileInfo.data);
+    if (!missingData) {
+      console.log(`${fileInfo.currentPath} has unknown document type: ${fileInfo.documentType}`);
+      return false;
     }
 
     console.log(`${fileInfo.currentPath} is missing data: ${missingData.join(', ')}`);
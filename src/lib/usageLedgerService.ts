@@ -0,0 +1,178 @@
+import { Logger } from './logger';
+import { promises as fs } from 'node:fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { KeyMode } from './privacy';
+import { loadSettings, ModelPrice } from './settings';
+
+export type UsagePurpose = 'classification' | 'extraction' | 'repair';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  filePath: string;
+  folder: string;
+  provider: string;
+  model: string;
+  keyMode: KeyMode;
+  purpose: UsagePurpose;
+  pageCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;      // USD, 0 when the model is not in the price table
+  priced: boolean;   // false when no price was found for the model
+}
+
+export interface UsageTotals {
+  calls: number;
+  pages: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byDay: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byFolder: Record<string, UsageTotals>;
+  byKeyMode: Record<string, UsageTotals>;
+  unpricedModels: string[];
+}
+
+// USD per million tokens. Matched on exact model name first, then on the longest prefix
+// (so "gpt-4o-2024-08-06" uses the "gpt-4o" price). Extend or override in settings.prices.
+const PRICE_TABLE: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4-vision-preview': { input: 10, output: 30 },
+  'mock': { input: 0, output: 0 },
+};
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const prices = { ...PRICE_TABLE, ...loadSettings().prices };
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, pages: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.pages += record.pageCount;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.cost += record.cost;
+}
+
+export class UsageLedgerService {
+  private logger: Logger;
+  private ledgerPath: string;
+  private records: UsageRecord[];
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    // Lives next to state/analysis-cache.json. One JSON record per line, so
+    // concurrent calls only ever append and a crash loses at most one line.
+    this.ledgerPath = path.join(process.cwd(), 'state', 'usage-ledger.jsonl');
+    this.records = [];
+  }
+
+  async loadLedger(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.ledgerPath, 'utf-8');
+      this.records = [];
+      for (const line of data.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          this.records.push(JSON.parse(line));
+        } catch {
+          // A line cut short by a crash
+          this.logger.warn(`Skipping malformed usage ledger line: ${line}`);
+        }
+      }
+      this.logger.debug('Usage ledger loaded successfully');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`Error reading usage ledger: ${error}`);
+      }
+      this.records = [];
+    }
+  }
+
+  /**
+   * Append a record. Every API route has its own service instance, so the
+   * record goes straight to disk instead of into a loaded ledger.
+   */
+  async recordUsage(usage: Omit<UsageRecord, 'id' | 'timestamp' | 'cost' | 'priced'>): Promise<UsageRecord> {
+    const price = getModelPrice(usage.model);
+    const record: UsageRecord = {
+      ...usage,
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      cost: price ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000 : 0,
+      priced: !!price,
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.ledgerPath), { recursive: true });
+      await fs.appendFile(this.ledgerPath, JSON.stringify(record) + '\n');
+    } catch (error) {
+      this.logger.error(`Error saving usage ledger: ${error}`);
+      throw error;
+    }
+
+    this.logger.debug(`Recorded usage for ${usage.filePath}: ${usage.promptTokens}+${usage.completionTokens} tokens, $${record.cost.toFixed(4)}`);
+    return record;
+  }
+
+  getRecords(): UsageRecord[] {
+    return this.records;
+  }
+
+  /**
+   * Aggregate spend per day, model, folder and key mode, optionally limited to
+   * records between from and to (ISO dates, inclusive)
+   */
+  getSummary(from?: string, to?: string): UsageSummary {
+    const summary: UsageSummary = {
+      total: emptyTotals(),
+      byDay: {},
+      byModel: {},
+      byFolder: {},
+      byKeyMode: {},
+      unpricedModels: [],
+    };
+
+    for (const record of this.records) {
+      const day = record.timestamp.split('T')[0];
+      if ((from && day < from) || (to && day > to)) {
+        continue;
+      }
+
+      addToTotals(summary.total, record);
+      addToTotals(summary.byDay[day] ??= emptyTotals(), record);
+      addToTotals(summary.byModel[record.model] ??= emptyTotals(), record);
+      addToTotals(summary.byFolder[record.folder] ??= emptyTotals(), record);
+      addToTotals(summary.byKeyMode[record.keyMode] ??= emptyTotals(), record);
+      if (!record.priced && !summary.unpricedModels.includes(record.model)) {
+        summary.unpricedModels.push(record.model);
+      }
+    }
+
+    return summary;
+  }
+}
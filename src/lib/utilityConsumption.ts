@@ -0,0 +1,119 @@
+import { DocumentType, FileInfo, MeterReading, UtilityBillData } from '@/types';
+
+export interface ConsumptionPoint {
+  period_start: string;
+  period_end: string;
+  days?: number;            // Length of the period, inclusive
+  consumption: number;      // Net consumption over all meters and tariffs of the bill
+  unit: string;
+  per_day?: number;         // To compare periods of different length
+  supplier: string;
+  fileId: string;
+  currentPath: string;
+}
+
+export interface AdvancePaymentPoint {
+  document_date: string;
+  advance_payment?: number;
+  settlement_amount?: number;
+  supplier: string;
+  fileId: string;
+  currentPath: string;
+}
+
+export interface ConsumptionSeries {
+  consumption: Partial<Record<MeterReading['utility'], ConsumptionPoint[]>>;
+  advancePayments: AdvancePaymentPoint[];
+}
+
+function toNumber(value?: string): number | undefined {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function getDays(start: string, end: string): number | undefined {
+  const toTime = (date: string) => Date.UTC(Number(date.substring(0, 4)), Number(date.substring(4, 6)) - 1, Number(date.substring(6, 8)));
+  if (!/^\d{8}$/.test(start) || !/^\d{8}$/.test(end) || end < start) {
+    return undefined;
+  }
+  return Math.round((toTime(end) - toTime(start)) / 86_400_000) + 1;
+}
+
+/**
+ * Consumption of a meter reading: as printed, or else the difference of the
+ * readings
+ */
+function getConsumption(reading: MeterReading): number | undefined {
+  const consumption = toNumber(reading.consumption);
+  if (consumption !== undefined) {
+    return consumption;
+  }
+  const start = toNumber(reading.start_reading);
+  const end = toNumber(reading.end_reading);
+  return start !== undefined && end !== undefined ? end - start : undefined;
+}
+
+/**
+ * Consumption per utility and the advance payments of all analyzed utility
+ * bills, in date order. Pass a utility to get only its consumption.
+ */
+export function getConsumptionSeries(files: FileInfo[], utility?: string): ConsumptionSeries {
+  const series: ConsumptionSeries = { consumption: {}, advancePayments: [] };
+
+  for (const file of files) {
+    if (file.documentType !== DocumentType.UTILITY_BILL || file.status !== 'analyzed' || !file.data || file.childIds?.length) {
+      continue;
+    }
+    const data = file.data as UtilityBillData;
+    const days = getDays(data.period_start, data.period_end);
+
+    const totals = new Map<MeterReading['utility'], { consumption: number; unit: string }>();
+    for (const reading of data.meter_readings || []) {
+      const consumption = getConsumption(reading);
+      if (!reading.utility || consumption === undefined || (utility && reading.utility !== utility)) {
+        continue;
+      }
+      const total = totals.get(reading.utility) || { consumption: 0, unit: reading.unit };
+      total.consumption += consumption;
+      totals.set(reading.utility, total);
+    }
+    for (const [readingUtility, { consumption, unit }] of totals) {
+      (series.consumption[readingUtility] ??= []).push({
+        period_start: data.period_start,
+        period_end: data.period_end,
+        days,
+        consumption: round(consumption, 3),
+        unit,
+        per_day: days ? round(consumption / days, 3) : undefined,
+        supplier: data.supplier,
+        fileId: file.id,
+        currentPath: file.currentPath,
+      });
+    }
+
+    const advancePayment = toNumber(data.advance_payment);
+    const settlementAmount = toNumber(data.settlement_amount);
+    if (advancePayment !== undefined || settlementAmount !== undefined) {
+      series.advancePayments.push({
+        document_date: data.document_date,
+        advance_payment: advancePayment,
+        settlement_amount: settlementAmount,
+        supplier: data.supplier,
+        fileId: file.id,
+        currentPath: file.currentPath,
+      });
+    }
+  }
+
+  Object.values(series.consumption).forEach(points => points.sort((a, b) => a.period_start.localeCompare(b.period_start)));
+  series.advancePayments.sort((a, b) => a.document_date.localeCompare(b.document_date));
+  return series;
+}
@@ -0,0 +1,69 @@
+import { DocumentType, FileInfo, PurchaseData } from '@/types';
+
+export interface WarrantyEntry {
+  product_name: string;
+  brand: string;
+  model: string;
+  serial_number: string;
+  store: string;
+  purchase_date: string;
+  warranty_months: number;
+  expiry_date?: string;     // YYYYMMDD, unknown when the receipt states no warranty period
+  expired?: boolean;
+  fileId: string;
+  currentPath: string;      // The receipt, as warranty proof
+  type: FileInfo['type'];
+}
+
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Last day of the warranty: the purchase date plus the warranty period, on
+ * the last day of the month when that day does not exist (31 January + 1 month)
+ */
+export function getWarrantyExpiry(purchaseDate: string, months: number): string | undefined {
+  if (!/^\d{8}$/.test(purchaseDate) || !months) {
+    return undefined;
+  }
+  const year = Number(purchaseDate.substring(0, 4));
+  const month = Number(purchaseDate.substring(4, 6)) - 1 + months;
+  const day = Number(purchaseDate.substring(6, 8));
+  const lastDayOfMonth = new Date(year, month + 1, 0).getDate();
+  return toDateString(new Date(year, month, Math.min(day, lastDayOfMonth)));
+}
+
+/**
+ * Every analyzed purchase with its warranty expiry: the running warranties
+ * in order of expiry, then the expired ones, then those of unknown length
+ */
+export function getWarrantyRegister(files: FileInfo[], now = new Date()): WarrantyEntry[] {
+  const today = toDateString(now);
+
+  return files
+    .filter(file => file.documentType === DocumentType.PURCHASE && file.status === 'analyzed' && file.data && !file.childIds?.length)
+    .map(file => {
+      const data = file.data as PurchaseData;
+      const expiryDate = getWarrantyExpiry(data.purchase_date, Number(data.warranty_months) || 0);
+      return {
+        product_name: data.product_name,
+        brand: data.brand,
+        model: data.model,
+        serial_number: data.serial_number,
+        store: data.store,
+        purchase_date: data.purchase_date,
+        warranty_months: Number(data.warranty_months) || 0,
+        expiry_date: expiryDate,
+        expired: expiryDate ? expiryDate < today : undefined,
+        fileId: file.id,
+        currentPath: file.currentPath,
+        type: file.type,
+      };
+    })
+    .sort((a, b) =>
+      Number(a.expired ?? 2) - Number(b.expired ?? 2) ||
+      (a.expiry_date || '').localeCompare(b.expiry_date || '') ||
+      b.purchase_date.localeCompare(a.purchase_date)
+    );
+}
@@ -1,9 +1,12 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { FileInfo, State } from '@/types';
+import { DocumentTypeName, FileInfo, State } from '@/types';
 import { generateFileName } from '@/lib/generic-tools';
+import { BUILT_IN_DOCUMENT_TYPES, DocumentTypeDeclaration, findDocumentType } from '@/lib/documentTypes';
+import { getPairedCards, withPairedCardData } from '@/lib/cardPairing';
 
 interface FilesState {
   files: FileInfo[];
+  documentTypes: DocumentTypeDeclaration[];
   currentRecord: FileInfo | null;
   loading: boolean;
   error: string | null;
@@ -29,6 +32,7 @@ interface FilesState {
 
 const initialState: FilesState = {
   files: [],
+  documentTypes: BUILT_IN_DOCUMENT_TYPES,
   currentRecord: null,
   loading: false,
   error: null,
@@ -56,6 +60,18 @@ export const fetchFiles = createAsyncThunk(
   }
 );
 
+export const fetchDocumentTypes = createAsyncThunk(
+  'files/fetchDocumentTypes',
+  async () => {
+    const response = await fetch('/api/document-types');
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch document types');
+    }
+    return await response.json() as DocumentTypeDeclaration[];
+  }
+);
+
 export const scanFiles = createAsyncThunk(
   'files/scanFiles',
   async (_, { dispatch }) => {
@@ -111,7 +127,7 @@ export const cleanupFiles = createAsyncThunk(
 
 export const analyzeFile = createAsyncThunk(
   'files/analyzeFile',
-  async ({ id, forceReanalyze = false }: { id: string; forceReanalyze?: boolean }, { dispatch, getState }) => {
+  async ({ id, forceReanalyze = false, documentType }: { id: string; forceReanalyze?: boolean; documentType?: DocumentTypeName }, { dispatch, getState }) => {
     const state = getState() as { files: FilesState };
     const file = state.files.files.find(f => f.id === id);
     const fileName = file?.currentPath.split('/').pop() || id;
@@ -123,7 +139,7 @@ export const analyzeFile = createAsyncThunk(
     const response = await fetch('/api/analyze-batch', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ ids: [id], forceReanalyze }),
+      body: JSON.stringify({ ids: [id], forceReanalyze, documentType }),
     });
     if (!response.ok) {
       const errorData = await response.json();
@@ -141,6 +157,7 @@ export const analyzeFile = createAsyncThunk(
     // No need to fetchFiles since we have the updated file data
     return { 
       data: fileResult.data, 
+      children: fileResult.children as FileInfo[] | undefined,
       usedCache: fileResult.usedCache, 
       cacheHit: fileResult.usedCache,
       cacheStats: batchResult.cacheStats // Include cache stats
@@ -334,6 +351,9 @@ export const analyzeAll = createAsyncThunk(
             dispatch(setCurrentRecord(analyzedRecord));
             // Update file in state immediately (no need to fetchFiles)
             dispatch({ type: 'files/updateFile', payload: analyzedRecord });
+            if (fileResult.children) {
+              dispatch(setChildRecords({ parentId: file.id, children: fileResult.children }));
+            }
           } else {
             failedCount++;
             console.warn(`Failed to analyze file ${file.currentPath}:`, fileResult?.error || 'Unknown error');
@@ -389,13 +409,17 @@ export const renameAll = createAsyncThunk(
   'files/renameAll',
   async (_, { dispatch, getState }) => {
     const state = getState() as { files: FilesState };
+    const pairedCards = getPairedCards(state.files.files);
     const filesToRename = state.files.files.filter(file => {
       // Only rename files that are analyzed
       if (file.status !== 'analyzed') return false;
       
+      // Files holding several documents go away once their documents are renamed
+      if (file.childIds?.length) return false;
+      
       // Check if the proposed filename is valid
       const currentFilename = file.currentPath.split('/').pop() || '';
-      const proposedFilename = generateFileName(file).split('/').pop() || '';
+      const proposedFilename = generateFileName(withPairedCardData(file, pairedCards.get(file.id)), findDocumentType(state.files.documentTypes, file.documentType)).split('/').pop() || '';
       const extension = currentFilename.split('.').pop() || '';
       
       // Skip if proposed filename is invalid (blank, just extension, or starts with dot)
@@ -468,7 +492,8 @@ export const renameAll = createAsyncThunk(
         total: result.total,
         processed: result.successful,
         failed: result.failed,
-        results: result.results // Include results with file data
+        results: result.results, // Include results with file data
+        removedIds: result.removedIds as string[] | undefined
       };
     } catch (error) {
       // Update progress with error
@@ -496,6 +521,18 @@ function updateFileInState(state: FilesState, updatedFile: FileInfo): void {
   }
 }
 
+// Helper function to apply the records returned by a rename (a split of a multi-document file
+// returns the new standalone files, the source records left and the source records removed)
+function applyRenameResult(state: FilesState, result: { file?: FileInfo; files?: FileInfo[]; parents?: FileInfo[] }): void {
+  const updatedFiles = [...(result.file ? [result.file] : []), ...(result.files || []), ...(result.parents || [])];
+  updatedFiles.forEach(file => updateFileInState(state, file));
+}
+
+// Helper function to replace the child records of a file
+function setChildRecordsInState(state: FilesState, parentId: string, children: FileInfo[]): void {
+  state.files = [...state.files.filter(f => f.parentId !== parentId), ...children];
+}
+
 // Helper function to remove files from state by IDs
 function removeFilesFromState(state: FilesState, fileIds: string[]): void {
   state.files = state.files.filter(f => !fileIds.includes(f.id));
@@ -547,6 +584,9 @@ const filesSlice = createSlice({
       state.isAnalyzingSingle = !!action.payload;
       state.analyzingSingleFile = action.payload;
     },
+    setChildRecords: (state, action: PayloadAction<{ parentId: string; children: FileInfo[] }>) => {
+      setChildRecordsInState(state, action.payload.parentId, action.payload.children);
+    },
     setRenameProgress: (state, action: PayloadAction<{
       total: number;
       processed: number;
@@ -625,6 +665,13 @@ const filesSlice = createSlice({
         state.loading = false;
         state.error = action.error.message || 'Failed to fetch files';
       })
+      // Fetch document types
+      .addCase(fetchDocumentTypes.fulfilled, (state, action) => {
+        state.documentTypes = action.payload;
+      })
+      .addCase(fetchDocumentTypes.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to fetch document types';
+      })
       // Scan files
       .addCase(scanFiles.pending, (state) => {
         state.loading = true;
@@ -645,9 +692,12 @@ const filesSlice = createSlice({
       })
       .addCase(renameFile.fulfilled, (state, action) => {
         state.loading = false;
-        // Update file immediately if returned in response
-        if (action.payload?.file) {
-          updateFileInState(state, action.payload.file);
+        // Update files immediately if returned in response
+        if (action.payload) {
+          applyRenameResult(state, action.payload);
+        }
+        if (action.payload?.removedIds) {
+          removeFilesFromState(state, action.payload.removedIds);
         }
       })
       .addCase(renameFile.rejected, (state, action) => {
@@ -681,6 +731,9 @@ const filesSlice = createSlice({
         // Update the file in state immediately with the result
         if (action.payload?.data) {
           updateFileInState(state, action.payload.data);
+          if (action.payload.children) {
+            setChildRecordsInState(state, action.payload.data.id, action.payload.children);
+          }
           // Always set the analyzed file as the current record to show it in the preview
           state.currentRecord = action.payload.data;
         }
@@ -810,11 +863,14 @@ const filesSlice = createSlice({
         // Update files immediately from batch results
         if (action.payload?.results) {
           for (const result of action.payload.results) {
-            if (result.success && result.file) {
-              updateFileInState(state, result.file);
+            if (result.success) {
+              applyRenameResult(state, result);
             }
           }
         }
+        if (action.payload?.removedIds) {
+          removeFilesFromState(state, action.payload.removedIds);
+        }
       })
       .addCase(renameAll.rejected, (state, action) => {
         state.loading = false;
@@ -868,6 +924,7 @@ export const {
   setAnalysisProgress,
   setShouldStopAnalysis,
   setAnalyzingSingleFile,
+  setChildRecords,
   setRenameProgress
 } = filesSlice.actions;
 
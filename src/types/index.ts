@@ -1,14 +1,39 @@
+export interface FieldEvidence {
+  confidence: 'low' | 'medium' | 'high';
+  source?: string;          // Short quote from the document the value was taken from
+  page?: number;            // Page the value was found on, 1-based
+}
+
 export interface BaseDocumentData {
   extraction_status: 'success' | 'partial' | 'failed';
   confidence: 'low' | 'medium' | 'high';
+  field_evidence?: Record<string, FieldEvidence>; // Per extracted field, when the model provided it
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: string;
+  unit_price: string;       // Price per unit as printed on the line
+  vat_rate: string;         // Percentage, e.g. "21"
+}
+
+export interface VatBreakdownEntry {
+  rate: string;             // Percentage, e.g. "9"
+  net: string;
+  vat: string;
+  gross: string;
 }
 
 export interface InvoiceData extends BaseDocumentData {
   invoice_date: string;
   company_name: string;
   description: string;
-  invoice_amount: string;
+  invoice_amount: string;   // Total without VAT
   invoice_currency: string;
+  vat_amount?: string;
+  total_amount?: string;    // Total including VAT
+  line_items?: InvoiceLineItem[];
+  vat_breakdown?: VatBreakdownEntry[]; // One entry per VAT rate
 }
 
 export interface GenericDocumentData extends BaseDocumentData {
@@ -29,13 +54,168 @@ export interface MovieCoverData extends BaseDocumentData {
   imdb_id: string;
 }
 
-export type DocumentData = InvoiceData | GenericDocumentData | MovieCoverData;
+export interface MediaCoverData extends BaseDocumentData {
+  title: string;
+  media_format: 'CD' | 'vinyl' | 'game' | 'book' | undefined;
+  artist: string;           // Album artist, for CD and vinyl
+  author: string;           // For books
+  publisher: string;        // Record label, game or book publisher
+  year: number;
+  track_count: number;      // For CD and vinyl, 0 when unknown
+  platform: string;         // For games, e.g. PlayStation 5
+  isbn: string;             // For books, without hyphens
+  disc_number: string;
+  description: string;
+}
+
+export interface BankStatementData extends BaseDocumentData {
+  statement_date: string;
+  bank_name: string;
+  bank_account_number: string;
+  account_holder_name: string;
+  period_start: string;
+  period_end: string;
+  opening_balance: string;
+  closing_balance: string;
+  currency: string;
+  page_number: number;
+  number_of_pages: number;
+  description: string;
+}
+
+export interface PayslipData extends BaseDocumentData {
+  employer: string;
+  employee_name: string;
+  period: string;           // Month the payslip is for, YYYYMM
+  gross_salary: string;
+  net_salary: string;
+  loonheffing: string;      // Wage tax withheld
+  holiday_allowance: string; // Vakantiegeld paid out in this period
+  pension_contribution: string; // Employee part of the pension premium
+  currency: string;
+}
+
+export interface InsuranceData extends BaseDocumentData {
+  document_date: string;
+  insurer: string;
+  policy_number: string;
+  coverage_type: string;    // E.g. car, home contents, liability, travel, health
+  premium_amount: string;
+  premium_frequency: 'monthly' | 'quarterly' | 'half-yearly' | 'yearly' | undefined;
+  currency: string;
+  start_date: string;
+  renewal_date: string;     // Next date the policy renews (contractvervaldatum)
+  end_date: string;         // Set when the policy was cancelled or ends
+}
+
+export interface MeterReading {
+  utility: 'electricity' | 'gas' | 'water' | 'heat';
+  meter_number: string;
+  tariff: string;           // E.g. normal, low (dal), return delivery
+  start_reading: string;
+  end_reading: string;
+  consumption: string;      // Used in the period, negative for electricity delivered back
+  unit: string;             // kWh, m3, GJ
+}
+
+export interface UtilityBillData extends BaseDocumentData {
+  document_date: string;
+  supplier: string;
+  period_start: string;
+  period_end: string;
+  meter_readings?: MeterReading[];
+  advance_payment: string;  // Monthly advance (termijnbedrag)
+  settlement_amount: string; // To pay, or negative when refunded
+  currency: string;
+}
+
+export interface PurchaseData extends BaseDocumentData {
+  purchase_date: string;
+  store: string;
+  product_name: string;
+  brand: string;
+  model: string;
+  serial_number: string;
+  price: string;
+  currency: string;
+  warranty_months: number;  // 0 when the receipt does not state it
+}
+
+export interface CardData extends BaseDocumentData {
+  card_date: string;        // Postmark or date of the message, usually unknown on the picture side
+  card_type: 'postcard' | 'greeting_card' | undefined;
+  side: 'picture' | 'message' | undefined;
+  occasion: string;         // birthday, christmas, holiday, ...
+  sender: string;
+  recipient: string;
+  picture: string;          // What the picture shows, or its caption
+  description: string;
+}
+
+export interface DrawingData extends BaseDocumentData {
+  child_name: string;
+  drawing_date: string;     // YYYYMMDD, often unknown
+  school_year: string;      // e.g. 2023-2024, when there is no date
+  age: number;              // As written on the drawing, 0 when not written
+  subject: string;          // One to three words, e.g. rocket
+  description: string;
+}
+
+// Data of a type declared in config/document-types.json
+export interface CustomDocumentData extends BaseDocumentData {
+  [field: string]: unknown;
+}
+
+export type DocumentData = InvoiceData | GenericDocumentData | MovieCoverData | MediaCoverData | BankStatementData | PayslipData | InsuranceData | UtilityBillData | PurchaseData | CardData | DrawingData | CustomDocumentData;
 
 export enum DocumentType {
   INVOICE = 'invoice',
   GENERIC = 'generic',
   MOVIE_COVER = 'movie_cover',
-  REKENINGAFSCHRIFT = 'rekeningafschrift'
+  MEDIA_COVER = 'media_cover',
+  REKENINGAFSCHRIFT = 'rekeningafschrift',
+  LOONSTROOK = 'loonstrook',
+  INSURANCE = 'insurance',
+  UTILITY_BILL = 'utility_bill',
+  PURCHASE = 'purchase',
+  CARD = 'card',
+  DRAWING = 'drawing'
+}
+
+// A built-in DocumentType or a type declared in config/document-types.json
+export type DocumentTypeName = DocumentType | string;
+
+export interface DocumentClassification {
+  documentType: DocumentTypeName;
+  confidence: 'low' | 'medium' | 'high';
+  supplier?: string;        // Company or sender, used to pick learned corrections
+  model?: string;
+  corrected?: boolean;      // Set when the type was corrected by hand instead of classified
+  timestamp: string;
+}
+
+export interface AnalysisInfo {
+  provider: string;         // Provider that produced the final data
+  model: string;
+  escalated: boolean;       // Set when a stronger provider re-ran the extraction
+  escalationReasons?: string[];
+  pages?: number[];         // Pages sent to the model (1-based), see the page policy
+  pageCount?: number;       // Pages in the file
+  textLayer?: boolean;      // Set when the PDF text layer was sent instead of page images
+  ocr?: boolean;            // Set when OCR text of the page images was added to the prompt
+  redactions?: Record<string, number>; // Masked items per kind (iban, bsn, ...) before sending with the shared data key
+  timestamp: string;
+}
+
+export interface PageText {
+  page: number;             // 1-based
+  text: string;
+  source: 'pdf' | 'ocr';    // Embedded text layer of the PDF, or local OCR of the page image
+}
+
+export interface PageRange {
+  from: number;             // First page, 1-based
+  to: number;               // Last page, inclusive
 }
 
 export interface FileInfo {
@@ -43,13 +223,20 @@ export interface FileInfo {
   originalPath: string;      // Original absolute path
   currentPath: string;       // Current absolute path in filesystem
   data?: DocumentData;       // Document data after analysis
+  extractedData?: DocumentData; // Document data as the model extracted it, before any edit by hand
   timestamp: string;        // When the file was first seen
   lastModified?: string;    // When the file was last modified (for change tracking)
   // status no longer includes 'renamed'; use isRenamed (derived) instead
   status: 'new' | 'analyzed' | 'bad';
   error?: string;
   type: 'pdf' | 'image';
-  documentType: DocumentType;
+  documentType: DocumentTypeName;
+  classification?: DocumentClassification; // Result of the classification stage
+  analysis?: AnalysisInfo;  // Which model produced the data
+  parentId?: string;        // Set on a document detected inside another (source) file
+  childIds?: string[];      // Documents detected in this file when it holds more than one
+  pageRange?: PageRange;    // Pages of the source file that belong to this child document
+  pageTexts?: PageText[];   // Text of the pages, for search and to check what the model saw
 }
 
 export interface RenamePlan {